@@ -18,10 +18,28 @@ const mqtt = MQTT.connect("wss://127.0.0.1:8443", {
 type API = {
     "example/sample": (a1: string, a2: number) => void
     "example/hello":  (a1: string, a2: number) => string
+    "example/count":  (n: number) => AsyncIterable<number>
+    "example/level":  (level: number) => void
+    "example/secret": (text: string) => string
 }
 
 const rpc = new RPC<API>(mqtt, { codec: "json" })
 
+/*  second instance with signed and encrypted messages (on its own connection,
+    as it rejects the unsigned and unencrypted messages of the first one)  */
+const mqttSecure = MQTT.connect("wss://127.0.0.1:8443", {
+    rejectUnauthorized: false,
+    username: "example",
+    password: "example"
+})
+const signingKey    = crypto.getRandomValues(new Uint8Array(32))
+const encryptionKey = crypto.getRandomValues(new Uint8Array(32))
+const secure = new RPC<API>(mqttSecure, {
+    codec:      "json",
+    signing:    { algorithm: "HMAC", keyId: "example", keys: { example: signingKey } },
+    encryption: { keyId: "example", keys: { example: encryptionKey } }
+})
+
 mqtt.on("error",     (err)            => { console.log("ERROR", err) })
 mqtt.on("offline",   ()               => { console.log("OFFLINE") })
 mqtt.on("close",     ()               => { console.log("CLOSE") })
@@ -40,6 +58,36 @@ mqtt.on("connect", () => {
     })
     rpc.call("example/hello", "world", 42).then(async (result) => {
         console.log("example/hello success: ", result)
+
+        /*  streamed results  */
+        await rpc.register("example/count", async function * (n) {
+            for (let i = 1; i <= n; i++)
+                yield i
+        })
+        for await (const item of rpc.callStream("example/count", rpc.opts({ timeout: 2000 }), 3))
+            console.log("example/count item: ", item)
+
+        /*  batched calls  */
+        const batch = rpc.batch()
+        const results = [ batch.call("example/hello", "batch", 1), batch.call("example/hello", "batch", 2) ]
+        await batch.send()
+        console.log("example/hello batch: ", await Promise.all(results))
+
+        /*  published state  */
+        await rpc.subscribeState("example/level", (change) => {
+            console.log("example/level: state: ", change.type, change.params)
+        })
+        await rpc.publishState("example/level", rpc.opts({ expiry: 60 }), 7)
+        await rpc.clearState("example/level")
+
+        /*  signed and encrypted call  */
+        await secure.register("example/secret", (text) => text.split("").reverse().join(""))
+        console.log("example/secret success: ", await secure.call("example/secret", "secret"))
+
+        /*  graceful shutdown  */
+        await secure.destroy({ drain: true })
+        await rpc.destroy({ drain: true })
+        mqttSecure.end()
         mqtt.end()
         await mosquitto.stop()
     }).catch((err) => {
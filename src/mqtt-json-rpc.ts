@@ -24,18 +24,24 @@
 
 /*  external requirements  */
 import { MqttClient, IClientPublishOptions,
-    IClientSubscribeOptions }                from "mqtt"
+    IClientSubscribeOptions, IPublishPacket,
+    MqttClientEventCallbacks }               from "mqtt"
 import UUID                                  from "pure-uuid"
 import CBOR                                  from "cbor"
+import * as MsgPack                          from "@msgpack/msgpack"
 import JSONRPC, {
     JsonRpcError, JsonRpcParsed, ID,
     RpcParams, NotificationObject,
     RequestObject, SuccessObject,
-    ErrorObject }                            from "jsonrpc-lite"
+    ErrorObject, JsonRpc }                   from "jsonrpc-lite"
 
 /*  type of a wrapped client id (for method overloading)  */
 export type ClientId = { __clientId: string }
 
+/*  type of wrapped options (for method overloading, where options beyond the
+    MQTT.js publish options have to be wrapped to distinguish them from parameters)  */
+export type WrappedOptions<O> = { __options: O }
+
 /*  MQTT topic making  */
 export type TopicMake = (name: string, clientId?: string) => string
 
@@ -46,14 +52,235 @@ export type TopicMatching = { name: string, clientId?: string }
 /*  API option type  */
 export interface APIOptions {
     clientId:                  string
-    codec:                     "cbor" | "json"
+    codec:                     string
     timeout:                   number
+    requestResponse:           "auto" | "mqtt5" | "legacy"
+    presence:                  boolean
+    errorStack:                boolean
+    offlinePolicy:             "queue" | "fail" | "deadline"
+    offlineQueueSize:          number
+    offlineDeadline:           number
+    retryPolicies:             Record<string, RetryPolicy>
+    responseCacheSize:         number
+    concurrency:               number
+    requestQueueSize:          number
+    metricsInterval:           number
+    metricsBuckets:            number[]
+    signing?:                  SigningOptions
+    encryption?:               EncryptionOptions
+    tracing?:                  TracingOptions
+    deadlineStorage?:          DeadlineStorage
     topicEventNoticeMake:      TopicMake
     topicServiceRequestMake:   TopicMake
     topicServiceResponseMake:  TopicMake
     topicEventNoticeMatch:     TopicMatch
     topicServiceRequestMatch:  TopicMatch
     topicServiceResponseMatch: TopicMatch
+    topicStateMake:            TopicMake
+    topicStateMatch:           TopicMatch
+    topicPresenceMake:         (clientId: string) => string
+    topicPresenceMatch:        TopicMatch
+}
+
+/*  message signing options  */
+export interface SigningOptions {
+    algorithm: "HMAC" | "Ed25519"
+    keyId?:    string
+    key?:      CryptoKey | Uint8Array
+    keys:      Record<string, CryptoKey | Uint8Array>
+}
+
+/*  message encryption options  */
+export interface EncryptionOptions {
+    keyId: string | ((name: string, clientId?: string) => string)
+    keys:  Record<string, CryptoKey | Uint8Array>
+}
+
+/*  W3C Trace Context of a span  */
+export interface TraceContext {
+    traceparent: string
+    tracestate?: string
+}
+
+/*  asynchronous context storage of the current trace context (e.g. Node.js AsyncLocalStorage)  */
+export interface TraceStorage {
+    getStore (): TraceContext | undefined
+    run<R> (store: TraceContext, callback: () => R): R
+}
+
+/*  span of a traced service call, event emission or handler invocation  */
+export interface TraceSpan {
+    kind:      "call" | "batch" | "emit" | "service" | "event"
+    name:      string
+    clientId?: string
+    parent?:   TraceContext
+    context:   TraceContext
+}
+
+/*  tracing options  */
+export interface TracingOptions {
+    storage?:   TraceStorage
+    spanStart?: (span: TraceSpan) => TraceContext | undefined
+    spanEnd?:   (span: TraceSpan, error?: Error) => void
+}
+
+/*  asynchronous context storage of the current deadline (e.g. Node.js AsyncLocalStorage)  */
+export interface DeadlineStorage {
+    getStore (): number | undefined
+    run<R> (store: number, callback: () => R): R
+}
+
+/*  validation function (valid on true, null, undefined or an empty array,
+    invalid on false or on any other result, which is treated as error details)  */
+export type ValidationResult = boolean | string | unknown[] | object | null | undefined
+export type Validator = (value: any) => ValidationResult
+
+/*  parameter style of a service or event handler (either positional parameters
+    or a single named parameters object) and the parameter names for mapping
+    received positional parameters onto named ones and vice versa  */
+export interface ParamsSpec {
+    style?: "positional" | "named"
+    names?: string[]
+}
+
+/*  event subscription options  */
+export interface SubscribeOptions extends Partial<IClientSubscribeOptions> {
+    params?:    ParamsSpec
+    context?:   boolean
+    authorize?: Authorizer
+    validate?: {
+        params?: Validator | Validator[]
+    }
+}
+
+/*  service registration options  */
+export interface RegisterOptions extends Partial<IClientSubscribeOptions> {
+    group?:       string
+    concurrency?: number
+    queueSize?:   number
+    priority?:    number
+    params?:      ParamsSpec
+    context?:     boolean
+    authorize?:   Authorizer
+    validate?: {
+        params?: Validator | Validator[]
+        result?: Validator
+    }
+}
+
+/*  service call retry policy  */
+export interface RetryPolicy {
+    attempts:   number
+    delay?:     number
+    maxDelay?:  number
+    factor?:    number
+    jitter?:    number
+    retryable?: (err: Error) => boolean
+}
+
+/*  event emission options  */
+export interface EmitOptions extends IClientPublishOptions {
+    trace?: TraceContext
+}
+
+/*  state publishing options  */
+export interface StateOptions extends IClientPublishOptions {
+    expiry?: number
+    trace?:  TraceContext
+}
+
+/*  change of a state (either set to a value or cleared)  */
+export interface StateChange<P extends any[] = any[]> {
+    type:     "set" | "clear"
+    name:     string
+    params?:  P
+    retained: boolean
+    context:  HandlerContext
+}
+
+/*  service call options  */
+export interface CallOptions extends IClientPublishOptions {
+    signal?:   AbortSignal
+    timeout?:  number
+    deadline?: Date
+    retry?:    RetryPolicy | false
+    trace?:    TraceContext
+}
+
+/*  service call options for calls to all registrants  */
+export interface CallAllOptions extends CallOptions {
+    count?: number
+}
+
+/*  single response of a service call to all registrants  */
+export interface CallAllResponse<R> {
+    clientId?: string
+    result?:   R
+    error?:    RpcError
+}
+
+/*  presence information of a peer  */
+export interface PresenceInfo {
+    clientId: string
+    services: string[]
+    events:   string[]
+}
+
+/*  presence change of a peer  */
+export interface PresenceChange {
+    type: "join" | "update" | "leave"
+    info: PresenceInfo
+}
+
+/*  latency histogram (in milliseconds, with the counts per bucket
+    and a final count for all values beyond the last bucket)  */
+export interface HistogramStats {
+    buckets: number[]
+    counts:  number[]
+    count:   number
+    sum:     number
+}
+
+/*  statistics of a service (as caller and as registrant)  */
+export interface ServiceStats {
+    sent:      number
+    succeeded: number
+    failed:    number
+    timedOut:  number
+    received:  number
+    handled:   number
+    errors:    number
+    queued:    number
+    rejected:  number
+    latency:   HistogramStats
+    duration:  HistogramStats
+}
+
+/*  statistics of an event (as emitter and as subscriber)  */
+export interface EventStats {
+    emitted:   number
+    delivered: number
+    duration:  HistogramStats
+}
+
+/*  statistics snapshot of the API  */
+export interface Stats {
+    timestamp:     Date
+    services:      Record<string, ServiceStats>
+    events:        Record<string, EventStats>
+    requests:      number
+    running:       number
+    queued:        number
+    subscriptions: number
+    offlineQueue:  number
+}
+
+/*  events emitted by the API  */
+export interface APIEvents {
+    "presence": (change: PresenceChange) => void
+    "online":   () => void
+    "offline":  () => void
+    "metrics":  (stats: Stats) => void
 }
 
 /*  Registration, Subscription and Observation result types  */
@@ -64,6 +291,73 @@ export interface Subscription {
     unsubscribe (): Promise<void>
 }
 
+/*  Batch of service calls and event emissions (sent as a single message)  */
+export interface Batch<T extends APISchema = APISchema> {
+    call<K extends ServiceKeys<T> & string> (
+        service:   K,
+        ...params: Parameters<T[K]>
+    ): Promise<ServiceResult<ReturnType<T[K]>>>
+    emit<K extends EventKeys<T> & string> (
+        event:     K,
+        ...params: Parameters<T[K]>
+    ): void
+    send (): Promise<void>
+}
+
+/*  interceptor context and function types  */
+export type InterceptorDirection = "outgoing" | "incoming"
+export type InterceptorKind      = "notification" | "request" | "response"
+export interface InterceptorContext {
+    direction: InterceptorDirection
+    kind:      InterceptorKind
+    method:    string
+    params:    any[]
+    named?:    boolean
+    topic:     string
+    clientId?: string
+    result?:   any
+    error?:    any
+}
+export type Interceptor = (ctx: InterceptorContext, next: () => Promise<any>) => any
+
+/*  context of a service or event handler invocation  */
+export interface HandlerContext {
+    method:         string
+    clientId?:      string
+    requestId?:     string
+    topic:          string
+    directed:       boolean
+    qos:            number
+    retain:         boolean
+    userProperties: Record<string, string | string[]>
+    received:       Date
+    keyId?:         string
+    trace?:         TraceContext
+    deadline?:      Date
+    signal?:        AbortSignal
+}
+
+/*  authorization of a service or event handler invocation  */
+export interface AuthorizationContext extends HandlerContext {
+    params: any[]
+}
+export type Authorizer = (ctx: AuthorizationContext) => boolean | Promise<boolean>
+
+/*  JSON-RPC error code of unauthorized service requests  */
+export const ERROR_UNAUTHORIZED = -32001
+
+/*  JSON-RPC error code of service requests rejected due to overload  */
+export const ERROR_BUSY = -32000
+
+/*  JSON-RPC error code of service requests rejected during shutdown  */
+export const ERROR_SHUTDOWN = -32002
+
+/*  options for destroying the API instance  */
+export interface DestroyOptions {
+    drain?:    boolean
+    deadline?: number
+}
+
 /*  type utilities for generic API  */
 export type APISchema = Record<string, (...args: any[]) => any>
 
@@ -83,46 +377,192 @@ export type ServiceKeys<T> = string extends keyof T ? string : {
     : never
 }[ keyof T ]
 
+/*  method of a proxy (calling a service or emitting an event)  */
+export type ProxyMethod<T, K extends keyof T> = T[K] extends (...args: any[]) => any
+    ? K extends ServiceKeys<T>
+        ? (...params: Parameters<T[K]>) => Promise<ServiceResult<ReturnType<T[K]>>>
+        : (...params: Parameters<T[K]>) => void
+    : never
+
+/*  nested proxy (with the names split into their segments)  */
+type ProxyRest<T, P extends string> = keyof T extends infer K ? K extends `${P}${infer R}` ? R : never : never
+type ProxyHead<R extends string> = R extends `${infer H}/${string}` ? H : R
+export type ProxyNested<T, P extends string = ""> = {
+    [ H in ProxyHead<ProxyRest<T, P>> ]:
+        (`${P}${H}` extends keyof T ? ProxyMethod<T, `${P}${H}`> : unknown) &
+        ([ ProxyRest<T, `${P}${H}/`> ] extends [ never ] ? unknown : ProxyNested<T, `${P}${H}/`>)
+}
+
+/*  proxy of an API schema (with flat and nested access to its services and events)  */
+export type APIProxy<T> = { [ K in keyof T & string ]: ProxyMethod<T, K> } & ProxyNested<T>
+
+/*  proxy options (where the events are required if the API schema has any,
+    as their names are needed at runtime to not call them as services)  */
+export type ProxyOptions<T> = { clientId?: ClientId } & (
+    string extends keyof T ? { events?: string[] }
+    : [ EventKeys<T> ] extends [ never ] ? { events?: never[] }
+    : { events: EventKeys<T>[] })
+
+/*  arguments of a proxy creation (where the options are required if they require the events)  */
+export type ProxyArgs<T> = string extends keyof T ? [ options?: ProxyOptions<T> ]
+    : [ EventKeys<T> ] extends [ never ] ? [ options?: ProxyOptions<T> ]
+    : [ options: ProxyOptions<T> ]
+
+/*  message metadata (transported outside the JSON-RPC object proper)  */
+type Metadata = Record<string, string>
+
+/*  sending of a response to the caller of a service  */
+type Reply = (data: JsonRpc | JsonRpc[], callback?: (err?: Error) => void) => void
+
+/*  a single subscriber of an event (or event pattern)  */
+type EventHandler = { callback: (...params: any[]) => any, options: SubscribeOptions }
+
+/*  a single subscriber of a state (or state pattern)  */
+type StateHandler = (change: StateChange) => void
+
+/*  a single frame of a streamed service response  */
+type StreamFrame = { id: string, seq: number, value?: any, done?: boolean, error?: any }
+
+/*  extend a handler with the trailing handler context parameter  */
+export type WithContext<F extends (...args: any[]) => any> =
+    (...args: [ ...Parameters<F>, HandlerContext ]) => ReturnType<F>
+
+/*  extract the result type of a service (where streamed results are collected)  */
+export type ServiceResult<R> = R extends AsyncIterable<infer I> ? I[] : Awaited<R>
+
+/*  extract the item type of a streamed service  */
+export type ServiceStreamItem<R> = R extends AsyncIterable<infer I> ? I : Awaited<R>
+
+/*  extract the named parameters object of a service or event  */
+export type NamedParams<F extends (...args: any[]) => any> =
+    Parameters<F> extends [ infer P ] ? (P extends Record<string, any> ? P : Record<string, any>) : Record<string, any>
+
 /*  the encoder/decoder abstraction  */
-class Codec {
-    constructor (private type: "cbor" | "json") {}
-    encode (data: unknown): Buffer | string {
-        let result: Buffer | string
-        if (this.type === "cbor") {
-            try { result = CBOR.encode(data) }
-            catch (_ex) { throw new Error("failed to encode CBOR format") }
-        }
-        else if (this.type === "json") {
-            try { result = JSON.stringify(data) }
-            catch (_ex) { throw new Error("failed to encode JSON format") }
-        }
-        else
-            throw new Error("invalid format")
-        return result
+export interface Codec {
+    name:        string
+    contentType: string
+    binary:      boolean
+    encode (data: unknown): Buffer | string
+    decode (data: Buffer | string): unknown
+}
+
+/*  the built-in encoders/decoders  */
+const codecCBOR: Codec = {
+    name:        "cbor",
+    contentType: "application/cbor",
+    binary:      true,
+    encode:      (data) => CBOR.encode(data),
+    decode:      (data) => CBOR.decode(data as Buffer)
+}
+const codecJSON: Codec = {
+    name:        "json",
+    contentType: "application/json",
+    binary:      false,
+    encode:      (data) => JSON.stringify(data),
+    decode:      (data) => JSON.parse(data as string)
+}
+const codecMsgPack: Codec = {
+    name:        "msgpack",
+    contentType: "application/msgpack",
+    binary:      true,
+    encode:      (data) => {
+        const result = MsgPack.encode(data)
+        return Buffer.from(result.buffer, result.byteOffset, result.byteLength)
+    },
+    decode:      (data) => MsgPack.decode(data as Buffer)
+}
+
+/*  serialized error (as transported within the "data" field of a JSON-RPC error)  */
+export interface SerializedError {
+    name:    string
+    message: string
+    code?:   number
+    stack?:  string
+    cause?:  unknown
+}
+
+/*  error of a service call  */
+export class RpcError extends Error {
+    public code:      number
+    public data?:     unknown
+    public service?:  string
+    public clientId?: string
+    constructor (message: string, code = -100, data?: unknown, options?: ErrorOptions) {
+        super(message, options)
+        this.name = new.target === RpcError ? "RpcError" : new.target.name
+        this.code = code
+        this.data = data
     }
-    decode (data: Buffer | string): unknown {
-        let result: unknown
-        if (this.type === "cbor" && typeof data === "object" && data instanceof Buffer) {
-            try { result = CBOR.decode(data) }
-            catch (_ex) { throw new Error("failed to decode CBOR format") }
-        }
-        else if (this.type === "json" && typeof data === "string") {
-            try { result = JSON.parse(data) }
-            catch (_ex) { throw new Error("failed to decode JSON format") }
-        }
-        else
-            throw new Error("invalid format or wrong data type")
-        return result
+}
+
+/*  error of calls and emissions aborted by destroying the API instance  */
+export class ShutdownError extends Error {
+    constructor (message = "API instance destroyed") {
+        super(message)
+        this.name = new.target === ShutdownError ? "ShutdownError" : new.target.name
     }
 }
 
+/*  constructor of an error class (for mapping received errors)  */
+export type RpcErrorClass = new (message: string, code?: number, data?: unknown, options?: ErrorOptions) => RpcError
+
 /*  the API class  */
 export default class API<T extends APISchema = APISchema> {
+    private static errors = new Map<string | number, RpcErrorClass>()
+    private static codecs = new Map<string, Codec>([
+        [ codecCBOR.name,    codecCBOR ],
+        [ codecJSON.name,    codecJSON ],
+        [ codecMsgPack.name, codecMsgPack ]
+    ])
+    private static budgetMax = 0x7FFFFFFF
     private options:      APIOptions
     private codec:        Codec
-    private registry      = new Map<string, ((...params: any[]) => any) | ((...params: any[]) => void)>()
-    private requests      = new Map<string, { service: string, callback: (err: any, result: any) => void }>()
+    private services      = new Map<string, {
+        callback: (...params: any[]) => any,
+        options:  RegisterOptions
+    }>()
+    private events        = new Map<string, {
+        topics:     string[],
+        subscribed: Promise<void>,
+        handlers:   Set<EventHandler>
+    }>()
+    private states        = new Map<string, {
+        topics:     string[],
+        subscribed: Promise<void>,
+        handlers:   Set<StateHandler>,
+        values:     Map<string, StateChange>
+    }>()
+    private responses     = new Map<string, Promise<JsonRpc | null>>()
+    private requests      = new Map<string, {
+        service:         string,
+        responseService: string,
+        collect:         boolean,
+        callback:        (err: any, result: any, sender?: string) => void,
+        stream:          (frame: StreamFrame, sender?: string) => void,
+        fail:            (err: any) => void
+    }>()
     private subscriptions = new Map<string, number>()
+    private interceptors  = [] as Interceptor[]
+    private running       = new Map<string, AbortController>()
+    private handling      = new Set<Promise<JsonRpc | null>>()
+    private slots         = { running: 0, services: new Map<string, number>() }
+    private slotQueue     = [] as { service: string, concurrency?: number, priority: number, resolve: () => void }[]
+    private listeners     = new Map<string, Set<(...args: any[]) => void>>()
+    private peers         = new Map<string, PresenceInfo>()
+    private peersTracked: Promise<void> | null = null
+    private topics        = new Map<string, Partial<IClientSubscribeOptions>>()
+    private online        = false
+    private offlineQueue  = [] as { resolve: () => void, reject: (err: Error) => void }[]
+    private outgoing      = Promise.resolve()
+    private incoming      = Promise.resolve()
+    private signingKeys:  Promise<{ key?: CryptoKey, keys: Map<string, CryptoKey> }> | null = null
+    private encryptionKeys: Promise<Map<string, CryptoKey>> | null = null
+    private stats         = { services: new Map<string, ServiceStats>(), events: new Map<string, EventStats>() }
+    private metricsTimer: ReturnType<typeof setInterval> | null = null
+    private mqttListeners = [] as { event: keyof MqttClientEventCallbacks, listener: (...args: any[]) => void }[]
+    private closing       = false
+    private destroyed     = false
+    private destroying:   Promise<void> | null = null
 
     /*  construct API class  */
     constructor (
@@ -134,6 +574,18 @@ export default class API<T extends APISchema = APISchema> {
             clientId: (new UUID(1)).format("std"),
             codec:    "cbor",
             timeout:  10 * 1000,
+            requestResponse: "auto",
+            presence: false,
+            errorStack: false,
+            offlinePolicy:    "queue",
+            offlineQueueSize: 100,
+            offlineDeadline:  10 * 1000,
+            retryPolicies:    {},
+            responseCacheSize: 1000,
+            concurrency:      0,
+            requestQueueSize: 100,
+            metricsInterval:  0,
+            metricsBuckets:   [ 5, 10, 25, 50, 100, 250, 500, 1000, 2500, 5000, 10000 ],
             topicEventNoticeMake: (name, clientId) => {
                 return clientId
                     ? `${name}/event-notice/${clientId}`
@@ -154,206 +606,1347 @@ export default class API<T extends APISchema = APISchema> {
                 return m ? { name: m[1], clientId: m[2] } : null
             },
             topicServiceRequestMatch: (topic) => {
-                const m = topic.match(/^(.+?)\/service-request(?:\/(.+))?$/)
+                const m = topic.match(/^(?:\$share\/[^/]+\/)?(.+?)\/service-request(?:\/(.+))?$/)
                 return m ? { name: m[1], clientId: m[2] } : null
             },
             topicServiceResponseMatch: (topic) => {
                 const m = topic.match(/^(.+?)\/service-response\/(.+)$/)
                 return m ? { name: m[1], clientId: m[2] } : null
             },
+            topicStateMake: (name) => {
+                return `${name}/state-notice`
+            },
+            topicStateMatch: (topic) => {
+                const m = topic.match(/^(.+?)\/state-notice$/)
+                return m ? { name: m[1] } : null
+            },
+            topicPresenceMake: (clientId) => {
+                return `presence/${clientId}`
+            },
+            topicPresenceMatch: (topic) => {
+                const m = topic.match(/^presence\/(.+)$/)
+                return m ? { name: "presence", clientId: m[1] } : null
+            },
             ...options
         }
 
         /*  establish an encoder  */
-        this.codec = new Codec(this.options.codec)
+        const codec = API.codecs.get(this.options.codec)
+        if (codec === undefined)
+            throw new Error(`invalid codec "${this.options.codec}"`)
+        this.codec = codec
+
+        /*  ensure the Web Crypto API is available for signing, encryption and tracing
+            (NOTICE: it is provided globally only by browsers and Node.js 19 and higher)  */
+        const webCrypto = globalThis.crypto as Crypto | undefined
+        if ((this.options.signing !== undefined || this.options.encryption !== undefined)
+            && webCrypto?.subtle === undefined)
+            throw new Error("signing and encryption require the Web Crypto API (globalThis.crypto.subtle)")
+        if (this.options.tracing !== undefined && webCrypto?.getRandomValues === undefined)
+            throw new Error("tracing requires the Web Crypto API (globalThis.crypto.getRandomValues)")
 
         /*  hook into the MQTT message processing  */
-        this.mqtt.on("message", (topic, message) => {
-            this._onMessage(topic, message)
+        this._attach("message", (topic, message, packet) => {
+            this._onMessage(topic, message, packet)
         })
-    }
 
-    /*  subscribe to an MQTT topic (Promise-based)  */
-    private async _subscribeTopic (topic: string, options: Partial<IClientSubscribeOptions> = {}) {
-        return new Promise<void>((resolve, reject) => {
-            this.mqtt.subscribe(topic, { qos: 2, ...options }, (err: Error | null, _granted: any) => {
-                if (err) reject(err)
-                else     resolve()
-            })
+        /*  track the MQTT connection state  */
+        this.online = this.mqtt.connected
+        this._attach("connect", (connack) => {
+            this._onConnect(connack?.sessionPresent ?? false)
+        })
+        this._attach("close", () => {
+            this._onDisconnect()
         })
-    }
 
-    /*  unsubscribe from an MQTT topic (Promise-based)  */
-    private async _unsubscribeTopic (topic: string) {
-        return new Promise<void>((resolve, reject) => {
-            this.mqtt.unsubscribe(topic, (err?: Error, _packet?: any) => {
-                if (err) reject(err)
-                else     resolve()
+        /*  optionally establish presence announcement and tracking  */
+        if (this.options.presence) {
+            /*  let the MQTT broker clear our announcement on unexpected disconnects
+                (NOTICE: MQTT.js sends the Last Will with its initial connect already,
+                so it either has to be passed to MQTT.connect() or the MQTT.js instance
+                has to be created with option manualConnect and connected after us)  */
+            const will = this.mqtt.options.will
+            const topic = this.options.topicPresenceMake(this.options.clientId)
+            if (will !== undefined) {
+                if (will.topic !== topic || will.payload.length > 0 || !will.retain)
+                    throw new Error("presence: MQTT client has a different Last Will configured")
+            }
+            else if (!this.mqtt.options.manualConnect || this.mqtt.connected || this.mqtt.stream !== undefined)
+                throw new Error("presence: MQTT client already connects without the Last Will " +
+                    "(pass it to MQTT.connect() or use its option manualConnect)")
+            else
+                this.mqtt.options.will = { topic, payload: Buffer.alloc(0), qos: 1, retain: true }
+
+            /*  (re-)announce ourself and track the other peers on each connect  */
+            this._attach("connect", () => {
+                this._presenceStart()
             })
-        })
+            if (this.mqtt.connected)
+                this._presenceStart()
+        }
+
+        /*  optionally provide the statistics periodically  */
+        if (this.options.metricsInterval > 0) {
+            this.metricsTimer = setInterval(() => {
+                this._notify("metrics", this.getStats())
+            }, this.options.metricsInterval)
+            this.metricsTimer.unref?.()
+        }
     }
 
-    /*  subscribe to an RPC event  */
-    async subscribe<K extends EventKeys<T> & string> (
-        event:    K,
-        callback: T[K]
-    ): Promise<Subscription>
-    async subscribe<K extends EventKeys<T> & string> (
-        event:    K,
-        options:  Partial<IClientSubscribeOptions>,
-        callback: T[K]
-    ): Promise<Subscription>
-    async subscribe<K extends EventKeys<T> & string> (
-        event:    K,
-        ...args:  any[]
-    ): Promise<Subscription> {
-        /*  determine parameters  */
-        let options:  Partial<IClientSubscribeOptions> = {}
-        let callback: T[K] = args[0] as T[K]
-        if (args.length === 2 && typeof args[0] === "object") {
-            options  = args[0]
-            callback = args[1]
+    /*  attach a listener to the MQTT client (for later detaching it again)  */
+    private _attach<E extends keyof MqttClientEventCallbacks> (event: E, listener: MqttClientEventCallbacks[E]): void {
+        this.mqtt.on(event, listener)
+        this.mqttListeners.push({ event, listener })
+    }
+
+    /*  destroy the API instance (optionally draining the running service handlers first)  */
+    destroy (options: DestroyOptions = {}): Promise<void> {
+        this.destroying ??= this._destroy(options)
+        return this.destroying
+    }
+    private async _destroy (options: DestroyOptions): Promise<void> {
+        /*  stop accepting new service requests and events  */
+        this.closing = true
+
+        /*  optionally let the running service handlers finish (up to the deadline)  */
+        if (options.drain && this.handling.size > 0) {
+            let timer: ReturnType<typeof setTimeout> | undefined
+            await Promise.race([
+                Promise.all(this.handling),
+                new Promise<void>((resolve) => {
+                    timer = setTimeout(resolve, options.deadline ?? this.options.timeout)
+                })
+            ])
+            clearTimeout(timer)
         }
 
-        /*  sanity check situation  */
-        if (this.registry.has(event))
-            throw new Error(`subscribe: event "${event}" already subscribed`)
+        /*  stop accepting new calls and emissions and
+            abort the remaining service handlers and pending calls  */
+        this.destroyed = true
+        const err = new ShutdownError()
+        for (const controller of this.running.values())
+            controller.abort(err)
+        this.running.clear()
+        for (const request of this.requests.values())
+            request.fail(err)
+        this.requests.clear()
+        for (const entry of this.offlineQueue.splice(0))
+            entry.reject(err)
 
-        /*  generate the corresponding MQTT topics for broadcast and direct use  */
-        const topicB = this.options.topicEventNoticeMake(event)
-        const topicD = this.options.topicEventNoticeMake(event, this.options.clientId)
+        /*  stop providing the statistics periodically  */
+        if (this.metricsTimer !== null) {
+            clearInterval(this.metricsTimer)
+            this.metricsTimer = null
+        }
 
-        /*  subscribe to MQTT topics  */
-        await Promise.all([
-            this._subscribeTopic(topicB, { qos: 0, ...options }),
-            this._subscribeTopic(topicD, { qos: 0, ...options })
-        ]).catch((err: Error) => {
-            this._unsubscribeTopic(topicB).catch(() => {})
-            this._unsubscribeTopic(topicD).catch(() => {})
-            throw err
-        })
+        /*  clear our presence announcement and release the Last Will  */
+        if (this.options.presence) {
+            const topic = this.options.topicPresenceMake(this.options.clientId)
+            if (this.mqtt.options.will?.topic === topic)
+                delete this.mqtt.options.will
+            if (this.mqtt.connected)
+                await new Promise<void>((resolve) => {
+                    this.mqtt.publish(topic, Buffer.alloc(0), { qos: 1, retain: true }, () => { resolve() })
+                })
+        }
 
-        /*  remember the subscription  */
-        this.registry.set(event, callback)
+        /*  unsubscribe from all service, event, response and presence topics  */
+        const topics = Array.from(this.topics.keys())
+        this.topics.clear()
+        this.subscriptions.clear()
+        this.services.clear()
+        this.events.clear()
+        this.states.clear()
+        if (topics.length > 0 && this.mqtt.connected)
+            await new Promise<void>((resolve) => {
+                this.mqtt.unsubscribe(topics, (err?: Error) => {
+                    if (err)
+                        this.mqtt.emit("error", err)
+                    resolve()
+                })
+            })
 
-        /*  provide a subscription for subsequent unsubscribing  */
-        const self = this
-        const subscription: Subscription = {
-            async unsubscribe (): Promise<void> {
-                if (!self.registry.has(event))
-                    throw new Error(`unsubscribe: event "${event}" not subscribed`)
-                self.registry.delete(event)
-                return Promise.all([
-                    self._unsubscribeTopic(topicB),
-                    self._unsubscribeTopic(topicD)
-                ]).then(() => {})
+        /*  detach from the MQTT client  */
+        for (const { event, listener } of this.mqttListeners)
+            this.mqtt.removeListener(event, listener)
+        this.mqttListeners = []
+        this.listeners.clear()
+        this.peers.clear()
+        this.responses.clear()
+    }
+
+    /*  determine whether we are connected to the MQTT broker  */
+    isOnline (): boolean {
+        return this.online
+    }
+
+    /*  handle (re-)connect to the MQTT broker  */
+    private _onConnect (sessionPresent: boolean): void {
+        /*  re-subscribe to all topics (unless the MQTT broker still knows them)  */
+        if (!sessionPresent) {
+            for (const [ topic, options ] of this.topics) {
+                this.mqtt.subscribe(topic, { qos: 2, ...options }, (err: Error | null) => {
+                    if (err)
+                        this.mqtt.emit("error", err)
+                })
             }
         }
-        return subscription
-    }
 
-    /*  register an RPC service  */
-    async register<K extends ServiceKeys<T> & string> (
-        service:  K,
-        callback: T[K]
-    ): Promise<Registration>
-    async register<K extends ServiceKeys<T> & string> (
-        service:  K,
-        options:  Partial<IClientSubscribeOptions>,
-        callback: T[K]
-    ): Promise<Registration>
-    async register<K extends ServiceKeys<T> & string> (
-        service:  K,
-        ...args:  any[]
-    ): Promise<Registration> {
-        /*  determine parameters  */
-        let options:  Partial<IClientSubscribeOptions> = {}
-        let callback: T[K] = args[0] as T[K]
-        if (args.length === 2 && typeof args[0] === "object") {
-            options  = args[0]
-            callback = args[1]
+        /*  notify about state change  */
+        if (!this.online) {
+            this.online = true
+            this._notify("online")
         }
 
-        /*  sanity check situation  */
-        if (this.registry.has(service))
-            throw new Error(`register: service "${service}" already registered`)
+        /*  release all calls and emissions which were queued while being offline  */
+        const queue = this.offlineQueue
+        this.offlineQueue = []
+        for (const entry of queue)
+            entry.resolve()
+    }
 
-        /*  generate the corresponding MQTT topics for broadcast and direct use  */
-        const topicB = this.options.topicServiceRequestMake(service)
-        const topicD = this.options.topicServiceRequestMake(service, this.options.clientId)
+    /*  handle disconnect from the MQTT broker  */
+    private _onDisconnect (): void {
+        if (this.online) {
+            this.online = false
+            this._notify("offline")
+        }
+    }
 
-        /*  subscribe to MQTT topics  */
-        await Promise.all([
-            this._subscribeTopic(topicB, { qos: 2, ...options }),
-            this._subscribeTopic(topicD, { qos: 2, ...options })
-        ]).catch((err: Error) => {
-            this._unsubscribeTopic(topicB).catch(() => {})
-            this._unsubscribeTopic(topicD).catch(() => {})
-            throw err
+    /*  wait until we are online (according to the offline policy and the optional timeout of a call)  */
+    private _whenOnline (signal?: AbortSignal, timeout?: number): Promise<void> {
+        if (this.destroyed)
+            return Promise.reject(new ShutdownError())
+        if (this.online)
+            return Promise.resolve()
+        if (this.options.offlinePolicy === "fail")
+            return Promise.reject(new Error("offline"))
+        if (this.offlineQueue.length >= this.options.offlineQueueSize)
+            return Promise.reject(new Error("offline queue full"))
+        return new Promise<void>((resolve, reject) => {
+            let timer: NodeJS.Timeout | null = null
+            const cleanup = () => {
+                if (timer !== null)
+                    clearTimeout(timer)
+                signal?.removeEventListener("abort", onAbort)
+            }
+            const fail = (err: Error) => {
+                cleanup()
+                const i = this.offlineQueue.indexOf(entry)
+                if (i >= 0)
+                    this.offlineQueue.splice(i, 1)
+                reject(err)
+            }
+            const entry = { resolve: () => { cleanup(); resolve() }, reject: fail }
+            const onAbort = () => { fail(signal!.reason ?? new Error("call aborted")) }
+            const deadline = this.options.offlinePolicy === "deadline" ? this.options.offlineDeadline : Infinity
+            if (timeout !== undefined && timeout < deadline)
+                timer = setTimeout(() => { fail(new Error("communication timeout")) }, timeout)
+            else if (deadline < Infinity)
+                timer = setTimeout(() => { fail(new Error("offline deadline exceeded")) }, deadline)
+            signal?.addEventListener("abort", onAbort, { once: true })
+            this.offlineQueue.push(entry)
         })
+    }
 
-        /*  remember the registration  */
-        this.registry.set(service, callback)
+    /*  attach an event listener  */
+    on<E extends keyof APIEvents> (event: E, listener: APIEvents[E]): this {
+        if (!this.listeners.has(event))
+            this.listeners.set(event, new Set())
+        this.listeners.get(event)!.add(listener)
+        return this
+    }
 
-        /*  provide a registration for subsequent unregistering  */
-        const self = this
-        const registration: Registration = {
-            async unregister (): Promise<void> {
-                if (!self.registry.has(service))
-                    throw new Error(`unregister: service "${service}" not registered`)
-                self.registry.delete(service)
-                return Promise.all([
-                    self._unsubscribeTopic(topicB),
-                    self._unsubscribeTopic(topicD)
-                ]).then(() => {})
+    /*  detach an event listener  */
+    off<E extends keyof APIEvents> (event: E, listener: APIEvents[E]): this {
+        this.listeners.get(event)?.delete(listener)
+        return this
+    }
+
+    /*  notify all event listeners  */
+    private _notify<E extends keyof APIEvents> (event: E, ...args: Parameters<APIEvents[E]>): void {
+        for (const listener of this.listeners.get(event) ?? [])
+            (listener as (...args: any[]) => void)(...args)
+    }
+
+    /*  determine the statistics of a service  */
+    private _statsService (name: string): ServiceStats {
+        let stats = this.stats.services.get(name)
+        if (stats === undefined) {
+            stats = {
+                sent: 0, succeeded: 0, failed: 0, timedOut: 0,
+                received: 0, handled: 0, errors: 0, queued: 0, rejected: 0,
+                latency:  this._histogram(),
+                duration: this._histogram()
             }
+            this.stats.services.set(name, stats)
         }
-        return registration
+        return stats
     }
 
-    /*  check whether argument has structure of interface IClientPublishOptions  */
-    private _isIClientPublishOptions (arg: any) {
-        if (typeof arg !== "object")
-            return false
-        const keys = [ "qos", "retain", "dup", "properties", "cbStorePut" ]
-        return Object.keys(arg).every((key) => keys.includes(key))
+    /*  determine the statistics of an event  */
+    private _statsEvent (name: string): EventStats {
+        let stats = this.stats.events.get(name)
+        if (stats === undefined) {
+            stats = { emitted: 0, delivered: 0, duration: this._histogram() }
+            this.stats.events.set(name, stats)
+        }
+        return stats
     }
 
-    /*  wrap client id into object (required for type-safe overloading)  */
-    clientId (id: string) {
-        return { __clientId: id }
+    /*  create an empty latency histogram  */
+    private _histogram (): HistogramStats {
+        const buckets = [ ...this.options.metricsBuckets ].sort((a, b) => a - b)
+        return { buckets, counts: new Array<number>(buckets.length + 1).fill(0), count: 0, sum: 0 }
     }
 
-    /*  return client id from wrapper object  */
-    private _getClientId (obj: ClientId) {
-        return obj.__clientId
+    /*  record a value in a latency histogram  */
+    private _observe (histogram: HistogramStats, value: number): void {
+        const i = histogram.buckets.findIndex((bucket) => value <= bucket)
+        histogram.counts[i >= 0 ? i : histogram.buckets.length]++
+        histogram.count++
+        histogram.sum += value
     }
 
-    /*  detect client id wrapper object  */
-    private _isClientId (obj: any): obj is ClientId {
-        return (typeof obj === "object"
-            && obj !== null
-            && "__clientId" in obj
-            && typeof obj.__clientId === "string"
-        )
+    /*  provide a snapshot of the statistics  */
+    getStats (): Stats {
+        const copy = (histogram: HistogramStats): HistogramStats =>
+            ({ ...histogram, buckets: [ ...histogram.buckets ], counts: [ ...histogram.counts ] })
+        const services: Record<string, ServiceStats> = {}
+        for (const [ name, stats ] of this.stats.services)
+            services[name] = { ...stats, latency: copy(stats.latency), duration: copy(stats.duration) }
+        const events: Record<string, EventStats> = {}
+        for (const [ name, stats ] of this.stats.events)
+            events[name] = { ...stats, duration: copy(stats.duration) }
+        return {
+            timestamp:     new Date(),
+            services,
+            events,
+            requests:      this.requests.size,
+            running:       this.slots.running,
+            queued:        this.slotQueue.length,
+            subscriptions: this.topics.size,
+            offlineQueue:  this.offlineQueue.length
+        }
     }
 
-    /*  parse optional clientId and options from variadic arguments  */
-    private _parseCallArgs<T extends any[]> (args: any[]): { clientId?: string, options: IClientPublishOptions, params: T } {
-        let clientId: string | undefined
-        let options: IClientPublishOptions = {}
-        let params = args as T
-        if (args.length >= 2 && this._isClientId(args[0]) && this._isIClientPublishOptions(args[1])) {
-            clientId = this._getClientId(args[0])
-            options  = args[1]
+    /*  provide the statistics in the Prometheus text exposition format  */
+    getStatsPrometheus (prefix = "mqtt_json_rpc"): string {
+        const stats = this.getStats()
+        const lines = [] as string[]
+        const label = (value: string) =>
+            value.replace(/\\/g, "\\\\").replace(/"/g, "\\\"").replace(/\n/g, "\\n")
+
+        /*  export counters  */
+        const counter = <S> (name: string, help: string, key: string, entries: Record<string, S>, value: (stats: S) => number) => {
+            lines.push(`# HELP ${prefix}_${name} ${help}`, `# TYPE ${prefix}_${name} counter`)
+            for (const [ entry, stats ] of Object.entries(entries))
+                lines.push(`${prefix}_${name}{${key}="${label(entry)}"} ${value(stats)}`)
+        }
+        counter("calls_sent_total",         "Service requests sent.",                 "service", stats.services, (s) => s.sent)
+        counter("calls_succeeded_total",    "Service requests succeeded.",            "service", stats.services, (s) => s.succeeded)
+        counter("calls_failed_total",       "Service requests failed.",               "service", stats.services, (s) => s.failed)
+        counter("calls_timed_out_total",    "Service requests timed out.",            "service", stats.services, (s) => s.timedOut)
+        counter("requests_received_total",  "Service requests received.",             "service", stats.services, (s) => s.received)
+        counter("requests_handled_total",   "Service requests handled successfully.", "service", stats.services, (s) => s.handled)
+        counter("requests_errors_total",    "Service requests handled with errors.",  "service", stats.services, (s) => s.errors)
+        counter("requests_rejected_total",  "Service requests rejected as busy.",     "service", stats.services, (s) => s.rejected)
+        counter("events_emitted_total",     "Events emitted.",                        "event",   stats.events,   (s) => s.emitted)
+        counter("events_delivered_total",   "Events delivered to subscribers.",       "event",   stats.events,   (s) => s.delivered)
+
+        /*  export histograms (in seconds, with cumulative buckets)  */
+        const histogram = <S> (name: string, help: string, key: string, entries: Record<string, S>, value: (stats: S) => HistogramStats) => {
+            lines.push(`# HELP ${prefix}_${name} ${help}`, `# TYPE ${prefix}_${name} histogram`)
+            for (const [ entry, stats ] of Object.entries(entries)) {
+                const h = value(stats)
+                let count = 0
+                h.buckets.forEach((bucket, i) => {
+                    count += h.counts[i]
+                    lines.push(`${prefix}_${name}_bucket{${key}="${label(entry)}",le="${bucket / 1000}"} ${count}`)
+                })
+                lines.push(`${prefix}_${name}_bucket{${key}="${label(entry)}",le="+Inf"} ${h.count}`)
+                lines.push(`${prefix}_${name}_sum{${key}="${label(entry)}"} ${h.sum / 1000}`)
+                lines.push(`${prefix}_${name}_count{${key}="${label(entry)}"} ${h.count}`)
+            }
+        }
+        histogram("call_duration_seconds",    "Round trip time of service calls.",     "service", stats.services, (s) => s.latency)
+        histogram("handler_duration_seconds", "Execution time of service handlers.",   "service", stats.services, (s) => s.duration)
+        histogram("event_duration_seconds",   "Execution time of event handlers.",     "event",   stats.events,   (s) => s.duration)
+
+        /*  export gauges  */
+        const gauge = (name: string, help: string, value: number) => {
+            lines.push(`# HELP ${prefix}_${name} ${help}`, `# TYPE ${prefix}_${name} gauge`, `${prefix}_${name} ${value}`)
+        }
+        gauge("requests_pending",     "Service requests awaiting their response.", stats.requests)
+        gauge("requests_running",     "Service requests currently handled.",       stats.running)
+        gauge("requests_queued",      "Service requests awaiting their handling.", stats.queued)
+        gauge("subscriptions_active", "Active MQTT topic subscriptions.",          stats.subscriptions)
+        gauge("offline_queue_size",   "Calls and emissions queued while offline.", stats.offlineQueue)
+        return lines.join("\n") + "\n"
+    }
+
+    /*  register an additional encoder/decoder  */
+    static registerCodec (codec: Codec): void {
+        if (API.codecs.has(codec.name))
+            throw new Error(`registerCodec: codec "${codec.name}" already registered`)
+        API.codecs.set(codec.name, codec)
+    }
+
+    /*  register an error class (for mapping received errors by their name or code)  */
+    static registerError (key: string | number, errorClass: RpcErrorClass): void {
+        if (API.errors.has(key))
+            throw new Error(`registerError: error "${key}" already registered`)
+        API.errors.set(key, errorClass)
+    }
+
+    /*  find encoder/decoder by its content type  */
+    private static _findCodec (contentType: string): Codec | undefined {
+        for (const codec of API.codecs.values())
+            if (codec.contentType === contentType)
+                return codec
+        return undefined
+    }
+
+    /*  determine decoder of a message (by MQTT 5.0 content type or our own one)  */
+    private _codecFor (packet?: IPublishPacket): Codec {
+        const contentType = packet?.properties?.contentType
+        if (contentType === undefined || contentType === this.codec.contentType)
+            return this.codec
+        const codec = API._findCodec(contentType)
+        if (codec === undefined)
+            throw new Error(`unsupported content type "${contentType}"`)
+        return codec
+    }
+
+    /*  encode data with an encoder  */
+    private _encode (codec: Codec, data: unknown): Buffer | string {
+        try { return codec.encode(data) }
+        catch (_ex) { throw new Error(`failed to encode ${codec.name} format`) }
+    }
+
+    /*  decode data with a decoder  */
+    private _decode (codec: Codec, data: Buffer): unknown {
+        try { return codec.decode(codec.binary ? data : data.toString()) }
+        catch (_ex) { throw new Error(`failed to decode ${codec.name} format`) }
+    }
+
+    /*  determine whether we communicate via MQTT 5.0  */
+    private _isMQTTv5 (): boolean {
+        return this.mqtt.options.protocolVersion === 5
+    }
+
+    /*  determine whether we use the MQTT 5.0 request/response mechanism  */
+    private _useMQTTv5RequestResponse (): boolean {
+        return this.options.requestResponse === "mqtt5"
+            || (this.options.requestResponse === "auto" && this._isMQTTv5())
+    }
+
+    /*  determine whether we carry metadata as MQTT 5.0 user properties
+        (NOTICE: only if all peers are known to speak MQTT 5.0, as the
+        MQTT broker strips the properties for MQTT 3.1.1 peers)  */
+    private _useMQTTv5Metadata (): boolean {
+        return this.options.requestResponse === "mqtt5" && this._isMQTTv5()
+    }
+
+    /*  encode and publish a JSON-RPC message to an MQTT topic  */
+    private _publish (
+        topic:     string,
+        codec:     Codec,
+        data:      JsonRpc | JsonRpc[],
+        options:   IClientPublishOptions,
+        meta:      Metadata = {},
+        callback?: (err?: Error) => void,
+        embedMeta: boolean = !this._useMQTTv5Metadata()
+    ): void {
+        /*  encode message  */
+        const encode = (meta: Metadata) => {
+            /*  attach metadata either as MQTT 5.0 user properties
+                or as an additional member of the JSON-RPC object  */
+            const hasMeta = Object.keys(meta).length > 0
+            if (this._isMQTTv5()) {
+                options = { ...options, properties: { ...options.properties, contentType: codec.contentType } }
+                if (hasMeta && !embedMeta)
+                    options.properties!.userProperties = { ...options.properties!.userProperties, ...meta }
+            }
+            let payload: unknown = data
+            if (hasMeta && embedMeta)
+                payload = Array.isArray(data) ? data.map((data) => ({ ...data, meta })) : { ...data, meta }
+            return this._encode(codec, payload)
+        }
+
+        /*  send message directly...  */
+        if (this.options.signing === undefined && this.options.encryption === undefined) {
+            this.mqtt.publish(topic, encode(meta), options, callback)
+            return
+        }
+
+        /*  ...or optionally sign and/or encrypt message first
+            (NOTICE: signing and encryption are asynchronous, so messages
+            are serialized in order to retain their original order)  */
+        const prepared = (async () => {
+            if (this.options.signing !== undefined)
+                meta = await this._sign(topic, codec, data, meta)
+            const message = encode(meta)
+            return this.options.encryption !== undefined
+                ? this._encrypt(topic, message)
+                : message
+        })()
+        prepared.catch(() => {})
+        this.outgoing = this.outgoing.then(() => prepared).then((message) => {
+            this.mqtt.publish(topic, message, options, callback)
+        }).catch((err: Error) => {
+            if (callback !== undefined)
+                callback(err)
+            else
+                this.mqtt.emit("error", err)
+        })
+    }
+
+    /*  determine the signing and verification keys  */
+    private _signingKeys (signing: SigningOptions) {
+        if (this.signingKeys === null) {
+            this.signingKeys = (async () => {
+                const algorithm = signing.algorithm === "HMAC"
+                    ? { name: "HMAC", hash: "SHA-256" }
+                    : { name: "Ed25519" }
+                const importKey = (key: CryptoKey | Uint8Array, format: "raw" | "pkcs8", usages: KeyUsage[]) =>
+                    key instanceof Uint8Array
+                        ? globalThis.crypto.subtle.importKey(format, key as Uint8Array<ArrayBuffer>, algorithm, false, usages)
+                        : Promise.resolve(key)
+
+                /*  determine keys for verification (by key id)  */
+                const keys = new Map<string, CryptoKey>()
+                for (const [ kid, key ] of Object.entries(signing.keys))
+                    keys.set(kid, await importKey(key, "raw",
+                        signing.algorithm === "HMAC" ? [ "sign", "verify" ] : [ "verify" ]))
+
+                /*  determine key for signing (HMAC: shared key, Ed25519: private key)  */
+                let key: CryptoKey | undefined
+                if (signing.key !== undefined)
+                    key = await importKey(signing.key, signing.algorithm === "HMAC" ? "raw" : "pkcs8", [ "sign" ])
+                else if (signing.algorithm === "HMAC" && signing.keyId !== undefined)
+                    key = keys.get(signing.keyId)
+                return { key, keys }
+            })()
+        }
+        return this.signingKeys
+    }
+
+    /*  determine the canonical representation of a message (for signing)  */
+    private _canonical (value: any): string {
+        if (value === null || value === undefined)
+            return "null"
+        else if (value instanceof Uint8Array)
+            return JSON.stringify({ $bytes: Buffer.from(value).toString("base64") })
+        else if (value instanceof Date)
+            return JSON.stringify(value.toISOString())
+        else if (value instanceof Map)
+            return this._canonical(Object.fromEntries(value))
+        else if (Array.isArray(value))
+            return `[${value.map((item) => this._canonical(item)).join(",")}]`
+        else if (typeof value === "object")
+            return `{${Object.keys(value).sort()
+                .filter((key) => value[key] !== undefined)
+                .map((key) => `${JSON.stringify(key)}:${this._canonical(value[key])}`)
+                .join(",")}}`
+        else if (typeof value === "bigint")
+            return JSON.stringify(value.toString())
+        else
+            return JSON.stringify(value)
+    }
+
+    /*  determine the signed data of a message (topic, message and own metadata,
+        as arbitrary MQTT 5.0 user properties of the caller are not signed)  */
+    private _signedData (topic: string, message: unknown, meta: Metadata): Uint8Array<ArrayBuffer> {
+        const signed: Metadata = {}
+        for (const key of [ "sender", "traceparent", "tracestate", "budget", "kid" ])
+            if (meta[key] !== undefined)
+                signed[key] = meta[key]
+        return new TextEncoder().encode(this._canonical({ topic, message, meta: signed }))
+    }
+
+    /*  sign a message (by extending its metadata with key id and signature)  */
+    private async _sign (topic: string, codec: Codec, data: JsonRpc | JsonRpc[], meta: Metadata): Promise<Metadata> {
+        const signing = this.options.signing!
+        const { key } = await this._signingKeys(signing)
+        if (key === undefined || signing.keyId === undefined)
+            throw new Error("signing: no key for signing configured")
+
+        /*  sign the message in the same representation the receiver sees after decoding  */
+        const message = this._decode(codec, Buffer.from(this._encode(codec, data)))
+        meta = { ...meta, kid: signing.keyId }
+        const signature = await globalThis.crypto.subtle.sign(signing.algorithm,
+            key, this._signedData(topic, message, meta))
+        return { ...meta, sig: Buffer.from(signature).toString("base64") }
+    }
+
+    /*  verify the signature of a message (and provide the verified key id)  */
+    private async _verify (topic: string, payload: unknown, meta: Metadata): Promise<string> {
+        const signing = this.options.signing!
+        const { keys } = await this._signingKeys(signing)
+        if (meta.kid === undefined || meta.sig === undefined)
+            throw new Error("signing: unsigned message")
+        const key = keys.get(meta.kid)
+        if (key === undefined)
+            throw new Error(`signing: unknown key id "${meta.kid}"`)
+
+        /*  verify the message without its embedded metadata  */
+        const strip = (obj: any) => {
+            if (typeof obj !== "object" || obj === null)
+                return obj
+            const { meta: _meta, ...rest } = obj
+            return rest
+        }
+        const message = Array.isArray(payload) ? payload.map(strip) : strip(payload)
+        const valid = await globalThis.crypto.subtle.verify(signing.algorithm,
+            key, Buffer.from(meta.sig, "base64"), this._signedData(topic, message, meta))
+        if (!valid)
+            throw new Error("signing: invalid signature")
+        return meta.kid
+    }
+
+    /*  determine the encryption keys (by key id)  */
+    private _encryptionKeys (encryption: EncryptionOptions) {
+        if (this.encryptionKeys === null) {
+            this.encryptionKeys = (async () => {
+                const keys = new Map<string, CryptoKey>()
+                for (const [ kid, key ] of Object.entries(encryption.keys))
+                    keys.set(kid, key instanceof Uint8Array
+                        ? await globalThis.crypto.subtle.importKey("raw", key as Uint8Array<ArrayBuffer>,
+                            { name: "AES-GCM" }, false, [ "encrypt", "decrypt" ])
+                        : key)
+                return keys
+            })()
+        }
+        return this.encryptionKeys
+    }
+
+    /*  encrypt an encoded message (into an envelope carrying key id, IV and ciphertext)
+        (NOTICE: the key is chosen by the service/event name and peer client id of
+        the topic and the topic is authenticated, too, so the ciphertext cannot be
+        replayed under a different topic; presence announcements stay unencrypted)  */
+    private async _encrypt (topic: string, message: Buffer | string): Promise<Buffer | string> {
+        const encryption = this.options.encryption!
+        const match = this.options.topicEventNoticeMatch(topic) ??
+            this.options.topicServiceRequestMatch(topic) ??
+            this.options.topicServiceResponseMatch(topic) ??
+            this.options.topicStateMatch(topic)
+        if (match === null)
+            return message
+        const kid = typeof encryption.keyId === "function"
+            ? encryption.keyId(match.name, match.clientId)
+            : encryption.keyId
+        const key = (await this._encryptionKeys(encryption)).get(kid)
+        if (key === undefined)
+            throw new Error(`encryption: unknown key id "${kid}"`)
+        const iv = globalThis.crypto.getRandomValues(new Uint8Array(12))
+        const ct = await globalThis.crypto.subtle.encrypt(
+            { name: "AES-GCM", iv, additionalData: new TextEncoder().encode(topic) },
+            key, typeof message === "string" ? new TextEncoder().encode(message) : message as Uint8Array<ArrayBuffer>)
+        return JSON.stringify({
+            enc: "AES-GCM",
+            kid,
+            iv:  Buffer.from(iv).toString("base64"),
+            ct:  Buffer.from(ct).toString("base64")
+        })
+    }
+
+    /*  decrypt an encrypted message (from its envelope)  */
+    private async _decrypt (topic: string, message: Buffer): Promise<Buffer> {
+        const encryption = this.options.encryption!
+        let envelope: any
+        try { envelope = JSON.parse(message.toString()) }
+        catch (_ex) { envelope = null }
+        if (   typeof envelope     !== "object" || envelope === null
+            || envelope.enc        !== "AES-GCM"
+            || typeof envelope.kid !== "string"
+            || typeof envelope.iv  !== "string"
+            || typeof envelope.ct  !== "string")
+            throw new Error("encryption: unencrypted message")
+        const key = (await this._encryptionKeys(encryption)).get(envelope.kid)
+        if (key === undefined)
+            throw new Error(`encryption: unknown key id "${envelope.kid}"`)
+        try {
+            const plaintext = await globalThis.crypto.subtle.decrypt(
+                { name: "AES-GCM", iv: Buffer.from(envelope.iv, "base64"), additionalData: new TextEncoder().encode(topic) },
+                key, Buffer.from(envelope.ct, "base64"))
+            return Buffer.from(plaintext)
+        }
+        catch (_ex) {
+            throw new Error(`encryption: failed to decrypt message with key id "${envelope.kid}"`)
+        }
+    }
+
+    /*  extract metadata from MQTT 5.0 user properties and/or JSON-RPC object  */
+    private _metaExtract (payload: any, packet?: IPublishPacket): Metadata {
+        const meta: Metadata = {}
+        if (typeof payload === "object" && payload !== null
+            && typeof payload.meta === "object" && payload.meta !== null)
+            for (const [ key, value ] of Object.entries(payload.meta))
+                if (typeof value === "string")
+                    meta[key] = value
+        const userProperties = packet?.properties?.userProperties
+        if (userProperties !== undefined)
+            for (const [ key, value ] of Object.entries(userProperties))
+                meta[key] = Array.isArray(value) ? value[0] : value
+        return meta
+    }
+
+    /*  add an interceptor to the message processing chain  */
+    use (interceptor: Interceptor): this {
+        this.interceptors.push(interceptor)
+        return this
+    }
+
+    /*  pass a message context through the interceptor chain  */
+    private _intercept (ctx: InterceptorContext, final: (ctx: InterceptorContext) => any): Promise<any> {
+        let index = -1
+        const dispatch = (i: number): Promise<any> => new Promise((resolve) => {
+            if (i <= index)
+                throw new Error("interceptor: next() called multiple times")
+            index = i
+            if (i < this.interceptors.length)
+                resolve(this.interceptors[i](ctx, () => dispatch(i + 1)))
+            else
+                resolve(final(ctx))
+        })
+        return dispatch(0)
+    }
+
+    /*  start presence announcement and tracking  */
+    private _presenceStart (): void {
+        this._presenceAnnounce()
+        this.peersTracked = this._subscribeTopic(this.options.topicPresenceMake("+"), { qos: 1 })
+        this.peersTracked.catch((err: Error) => {
+            this.mqtt.emit("error", err)
+        })
+    }
+
+    /*  announce our registered services and subscribed events (as a retained message)  */
+    private _presenceAnnounce (): void {
+        if (!this.options.presence || !this.mqtt.connected)
+            return
+        const info: PresenceInfo = {
+            clientId: this.options.clientId,
+            services: Array.from(this.services.keys()),
+            events:   Array.from(this.events.keys())
+        }
+        const topic = this.options.topicPresenceMake(this.options.clientId)
+        const announcement = JSONRPC.notification("rpc.presence", info)
+        this._publish(topic, this.codec, announcement, { qos: 1, retain: true })
+    }
+
+    /*  handle incoming presence announcement  */
+    private _onPresence (clientId: string, message: Buffer, packet?: IPublishPacket): void {
+        /*  an empty announcement (cleared explicitly or through the Last Will) means the peer is gone  */
+        if (message.length === 0) {
+            const info = this.peers.get(clientId)
+            if (info !== undefined) {
+                this.peers.delete(clientId)
+                this._notify("presence", { type: "leave", info })
+            }
+            return
+        }
+
+        /*  parse announcement  */
+        let info: PresenceInfo
+        try {
+            const parsed = JSONRPC.parseObject(this._decode(this._codecFor(packet), message))
+            if (!(parsed.type === "notification" && parsed.payload instanceof NotificationObject
+                && parsed.payload.method === "rpc.presence"))
+                throw new Error("invalid announcement")
+            const params = parsed.payload.params as PresenceInfo
+            if (!(typeof params === "object" && params !== null
+                && Array.isArray(params.services) && Array.isArray(params.events)))
+                throw new Error("invalid announcement")
+            info = { clientId, services: params.services, events: params.events }
+        }
+        catch (_err: unknown) {
+            this.mqtt.emit("error", new Error("failed to parse presence announcement"))
+            return
+        }
+
+        /*  remember peer and notify about the change (if any)  */
+        const known = this.peers.get(clientId)
+        if (known !== undefined
+            && known.services.join(",") === info.services.join(",")
+            && known.events.join(",")   === info.events.join(","))
+            return
+        this.peers.set(clientId, info)
+        this._notify("presence", { type: known !== undefined ? "update" : "join", info })
+    }
+
+    /*  discover the peers (optionally only the ones providing a particular service)  */
+    async discover (service?: ServiceKeys<T> & string): Promise<PresenceInfo[]> {
+        if (!this.options.presence)
+            throw new Error("discover: presence not enabled")
+        if (this.peersTracked !== null)
+            await this.peersTracked
+        return Array.from(this.peers.values())
+            .filter((info) => service === undefined || info.services.includes(service))
+    }
+
+    /*  subscribe to an MQTT topic (Promise-based)  */
+    private async _subscribeTopic (topic: string, options: Partial<IClientSubscribeOptions> = {}) {
+        this.topics.set(topic, options)
+        return new Promise<void>((resolve, reject) => {
+            this.mqtt.subscribe(topic, { qos: 2, ...options }, (err: Error | null, _granted: any) => {
+                if (err) reject(err)
+                else     resolve()
+            })
+        })
+    }
+
+    /*  unsubscribe from an MQTT topic (Promise-based)  */
+    private async _unsubscribeTopic (topic: string) {
+        this.topics.delete(topic)
+        return new Promise<void>((resolve, reject) => {
+            this.mqtt.unsubscribe(topic, (err?: Error, _packet?: any) => {
+                if (err) reject(err)
+                else     resolve()
+            })
+        })
+    }
+
+    /*  subscribe to an RPC event  */
+    async subscribe<K extends EventKeys<T> & string> (
+        event:    K,
+        callback: T[K]
+    ): Promise<Subscription>
+    async subscribe<K extends EventKeys<T> & string> (
+        event:    K,
+        options:  SubscribeOptions & { context: true },
+        callback: WithContext<T[K]>
+    ): Promise<Subscription>
+    async subscribe<K extends EventKeys<T> & string> (
+        event:    K,
+        options:  SubscribeOptions,
+        callback: T[K]
+    ): Promise<Subscription>
+    async subscribe<K extends EventKeys<T> & string> (
+        event:    K,
+        ...args:  any[]
+    ): Promise<Subscription> {
+        /*  determine parameters  */
+        let options:  SubscribeOptions = {}
+        let callback: T[K] = args[0] as T[K]
+        if (args.length === 2 && typeof args[0] === "object") {
+            options  = args[0]
+            callback = args[1]
+        }
+
+        /*  sanity check situation  */
+        if (this.closing)
+            throw new ShutdownError()
+        if (!this._patternValid(event))
+            throw new Error(`subscribe: invalid event pattern "${event}"`)
+
+        /*  subscribe to the MQTT topics of the event (once for all of its subscribers)  */
+        let entry = this.events.get(event)
+        const created = entry === undefined
+        if (entry === undefined) {
+            /*  generate the corresponding MQTT topics for broadcast and direct use  */
+            const topics = Array.from(new Set([
+                this._patternTopic(this.options.topicEventNoticeMake(event)),
+                this._patternTopic(this.options.topicEventNoticeMake(event, this.options.clientId))
+            ]))
+
+            /*  subscribe to MQTT topics  */
+            const {
+                validate: _validate, params: _params, context: _context, authorize: _authorize,
+                ...subscribeOptions
+            } = options
+            const newEntry = { topics, subscribed: Promise.resolve(), handlers: new Set<EventHandler>() }
+            newEntry.subscribed = Promise.all(topics.map((topic) =>
+                this._subscribeTopic(topic, { qos: 0, ...subscribeOptions })
+            )).then(() => {}, (err: Error) => {
+                if (this.events.get(event) === newEntry)
+                    this.events.delete(event)
+                for (const topic of topics)
+                    this._unsubscribeTopic(topic).catch(() => {})
+                throw err
+            })
+            this.events.set(event, newEntry)
+            entry = newEntry
+        }
+
+        /*  remember the subscriber  */
+        const handler: EventHandler = { callback, options }
+        entry.handlers.add(handler)
+        try {
+            await entry.subscribed
+        }
+        catch (err: unknown) {
+            entry.handlers.delete(handler)
+            throw err
+        }
+        if (created)
+            this._presenceAnnounce()
+
+        /*  provide a subscription for subsequent unsubscribing
+            (where the MQTT topics are unsubscribed with the last subscriber only)  */
+        const self = this
+        const subscription: Subscription = {
+            async unsubscribe (): Promise<void> {
+                const entry = self.events.get(event)
+                if (entry === undefined || !entry.handlers.has(handler))
+                    throw new Error(`unsubscribe: event "${event}" not subscribed`)
+                entry.handlers.delete(handler)
+                if (entry.handlers.size > 0)
+                    return
+                self.events.delete(event)
+                self._presenceAnnounce()
+                return Promise.all(entry.topics.map((topic) =>
+                    self._unsubscribeTopic(topic)
+                )).then(() => {})
+            }
+        }
+        return subscription
+    }
+
+    /*  check whether a name is valid as a pattern (with the MQTT topic filter wildcards "+" and "#")  */
+    private _patternValid (pattern: string): boolean {
+        const levels = pattern.split("/")
+        return !levels.some((level, i) => (level.includes("+") && level !== "+")
+            || (level.includes("#") && (level !== "#" || i < levels.length - 1)))
+    }
+
+    /*  determine the MQTT topic filter of a pattern based topic
+        (NOTICE: as a multi-level wildcard has to be the last level of an
+        MQTT topic filter, the topic is cut after it and the received
+        messages are matched against the pattern later)  */
+    private _patternTopic (topic: string): string {
+        return topic.replace(/(^|\/)#\/.*$/, "$1#")
+    }
+
+    /*  publish a state (as a retained event, so new subscribers receive its last value immediately)  */
+    async publishState<K extends EventKeys<T> & string> (
+        name:      K,
+        ...params: Parameters<T[K]>
+    ): Promise<void>
+    async publishState<K extends EventKeys<T> & string> (
+        name:      K,
+        options:   WrappedOptions<StateOptions> | IClientPublishOptions,
+        ...params: Parameters<T[K]>
+    ): Promise<void>
+    async publishState<K extends EventKeys<T> & string> (
+        name:      K,
+        ...args:   any[]
+    ): Promise<void> {
+        /*  determine actual parameters  */
+        let options: StateOptions = {}
+        let params = args
+        if (args.length >= 1 && (this._isWrappedOptions(args[0]) || this._isIClientPublishOptions(args[0]))) {
+            options = this._getOptions(args[0])
+            params  = args.slice(1)
+        }
+        const { expiry, trace, ...publishOptions } = options
+
+        /*  generate corresponding MQTT topic  */
+        const topic = this.options.topicStateMake(name)
+
+        /*  pass state through interceptors  */
+        const ctx: InterceptorContext = {
+            direction: "outgoing", kind: "notification",
+            method: name, params, topic
+        }
+        await this._intercept(ctx, async (ctx) => {
+            /*  generate JSON-RPC message and publish it as a retained message to MQTT topic (once online)
+                (with an optional expiry of the retained message via the MQTT 5.0 message expiry interval)  */
+            const notification = JSONRPC.notification(ctx.method, ctx.params)
+            let publish: IClientPublishOptions = { qos: 2, ...publishOptions, retain: true }
+            if (expiry !== undefined)
+                publish = { ...publish, properties: { ...publish.properties, messageExpiryInterval: expiry } }
+            await this._whenOnline()
+            const span = this._traceStart("emit", ctx.method, undefined, trace)
+            await new Promise<void>((resolve, reject) => {
+                this._publish(ctx.topic, this.codec, notification, publish,
+                    { sender: this.options.clientId, ...this._traceMeta(span) }, (err?: Error) => {
+                        this._traceEnd(span, err)
+                        if (err) reject(err)
+                        else     resolve()
+                    })
+            })
+            this._statsEvent(ctx.method).emitted++
+        })
+    }
+
+    /*  clear a state (by publishing an empty retained message, preceded by
+        a clear notification if messages are signed or encrypted, as the
+        empty message itself cannot be authenticated)  */
+    async clearState<K extends EventKeys<T> & string> (
+        name:    K,
+        options: IClientPublishOptions = {}
+    ): Promise<void> {
+        /*  generate corresponding MQTT topic  */
+        const topic = this.options.topicStateMake(name)
+
+        /*  pass state clearing through interceptors  */
+        const ctx: InterceptorContext = {
+            direction: "outgoing", kind: "notification",
+            method: name, params: [], topic
+        }
+        await this._intercept(ctx, async (ctx) => {
+            await this._whenOnline()
+            if (this.options.signing !== undefined || this.options.encryption !== undefined) {
+                const notification = JSONRPC.notification("rpc.state-clear", [])
+                await new Promise<void>((resolve, reject) => {
+                    this._publish(ctx.topic, this.codec, notification, { qos: 2, ...options, retain: false },
+                        { sender: this.options.clientId }, (err?: Error) => {
+                            if (err) reject(err)
+                            else     resolve()
+                        })
+                })
+            }
+            await new Promise<void>((resolve, reject) => {
+                this.mqtt.publish(ctx.topic, Buffer.alloc(0), { qos: 2, ...options, retain: true }, (err?: Error) => {
+                    if (err) reject(err)
+                    else     resolve()
+                })
+            })
+        })
+    }
+
+    /*  subscribe to a state (receiving its retained last value and all subsequent live changes)  */
+    async subscribeState<K extends EventKeys<T> & string> (
+        name:     K,
+        callback: (change: StateChange<Parameters<T[K]>>) => void
+    ): Promise<Subscription>
+    async subscribeState<K extends EventKeys<T> & string> (
+        name:     K,
+        options:  Partial<IClientSubscribeOptions>,
+        callback: (change: StateChange<Parameters<T[K]>>) => void
+    ): Promise<Subscription>
+    async subscribeState<K extends EventKeys<T> & string> (
+        name:     K,
+        ...args:  any[]
+    ): Promise<Subscription> {
+        /*  determine parameters  */
+        let options: Partial<IClientSubscribeOptions> = {}
+        let handler: StateHandler = args[0]
+        if (args.length === 2 && typeof args[0] === "object") {
+            options = args[0]
+            handler = args[1]
+        }
+
+        /*  sanity check situation  */
+        if (this.closing)
+            throw new ShutdownError()
+        if (!this._patternValid(name))
+            throw new Error(`subscribeState: invalid state pattern "${name}"`)
+
+        /*  subscribe to the MQTT topic of the state (once for all of its subscribers)  */
+        const entry = this.states.get(name)
+        if (entry === undefined) {
+            const topics = [ this._patternTopic(this.options.topicStateMake(name)) ]
+            const newEntry = {
+                topics,
+                subscribed: Promise.resolve(),
+                handlers:   new Set<StateHandler>([ handler ]),
+                values:     new Map<string, StateChange>()
+            }
+            newEntry.subscribed = Promise.all(topics.map((topic) =>
+                this._subscribeTopic(topic, { qos: 2, ...options })
+            )).then(() => {}, (err: Error) => {
+                if (this.states.get(name) === newEntry)
+                    this.states.delete(name)
+                for (const topic of topics)
+                    this._unsubscribeTopic(topic).catch(() => {})
+                throw err
+            })
+            this.states.set(name, newEntry)
+            await newEntry.subscribed
+        }
+        else {
+            /*  provide the last values (as the MQTT broker provides them to the first subscriber only)  */
+            await entry.subscribed
+            for (const change of entry.values.values())
+                handler({ ...change, retained: true })
+            entry.handlers.add(handler)
+        }
+
+        /*  provide a subscription for subsequent unsubscribing
+            (where the MQTT topic is unsubscribed with the last subscriber only)  */
+        const self = this
+        const subscription: Subscription = {
+            async unsubscribe (): Promise<void> {
+                const entry = self.states.get(name)
+                if (entry === undefined || !entry.handlers.has(handler))
+                    throw new Error(`unsubscribe: state "${name}" not subscribed`)
+                entry.handlers.delete(handler)
+                if (entry.handlers.size > 0)
+                    return
+                self.states.delete(name)
+                return Promise.all(entry.topics.map((topic) =>
+                    self._unsubscribeTopic(topic)
+                )).then(() => {})
+            }
+        }
+        return subscription
+    }
+
+    /*  handle incoming state change (with either a value or null for a cleared state)  */
+    private _onState (name: string, topic: string, payload: unknown, packet?: IPublishPacket, keyId?: string): void {
+        /*  ignore state changes during shutdown  */
+        if (this.closing)
+            return
+        const received = new Date()
+        const retained = packet?.retain ?? false
+
+        /*  deliver state change to all subscribers of the state or of a matching state pattern
+            (and remember the last value for subsequent subscribers, where retained values
+            already known are skipped, as the MQTT broker provides them again on each new
+            subscription of an overlapping pattern)  */
+        const deliver = (change: StateChange) => {
+            for (const [ pattern, entry ] of this.states) {
+                if (!this._patternMatch(pattern, name))
+                    continue
+                const known = entry.values.get(name)
+                if (change.retained && known !== undefined
+                    && JSON.stringify(known.params) === JSON.stringify(change.params))
+                    continue
+                if (change.type === "set")
+                    entry.values.set(name, change)
+                else
+                    entry.values.delete(name)
+                for (const handler of entry.handlers) {
+                    try {
+                        handler(change)
+                    }
+                    catch (err: unknown) {
+                        this.mqtt.emit("error", err as Error)
+                    }
+                }
+            }
+        }
+
+        /*  parse state value or clear notification (unless an empty message cleared the state)  */
+        let meta: Metadata = {}
+        let params: any[] | undefined
+        if (payload !== null) {
+            const entry = this._parse(payload, packet, keyId)
+            if (entry instanceof Error || !(entry.parsed.type === "notification"
+                && entry.parsed.payload instanceof NotificationObject)) {
+                this.mqtt.emit("error", new Error(`failed to parse state "${name}"`))
+                return
+            }
+            const notification = entry.parsed.payload as NotificationObject
+            meta = entry.meta
+            if (notification.method !== "rpc.state-clear")
+                params = Array.isArray(notification.params) ? Array.from(notification.params) : []
+        }
+
+        /*  pass state change through interceptors  */
+        const ctx: InterceptorContext = {
+            direction: "incoming", kind: "notification",
+            method: name,
+            params: params ?? [],
+            topic, clientId: meta.sender
+        }
+        this._intercept(ctx, (ctx) => {
+            const context = this._handlerContext(topic, packet, received, {
+                method:   name,
+                clientId: meta.sender,
+                directed: false,
+                keyId:    meta.kid
+            })
+            if (params === undefined)
+                deliver({ type: "clear", name, retained, context })
+            else
+                deliver({ type: "set", name, params: ctx.params, retained, context })
+        }).catch((err: Error) => {
+            this.mqtt.emit("error", err)
+        })
+    }
+
+    /*  register an RPC service  */
+    async register<K extends ServiceKeys<T> & string> (
+        service:  K,
+        callback: T[K]
+    ): Promise<Registration>
+    async register<K extends ServiceKeys<T> & string> (
+        service:  K,
+        options:  RegisterOptions & { context: true },
+        callback: WithContext<T[K]>
+    ): Promise<Registration>
+    async register<K extends ServiceKeys<T> & string> (
+        service:  K,
+        options:  RegisterOptions,
+        callback: T[K]
+    ): Promise<Registration>
+    async register<K extends ServiceKeys<T> & string> (
+        service:  K,
+        ...args:  any[]
+    ): Promise<Registration> {
+        /*  determine parameters  */
+        let options:  RegisterOptions = {}
+        let callback: T[K] = args[0] as T[K]
+        if (args.length === 2 && typeof args[0] === "object") {
+            options  = args[0]
+            callback = args[1]
+        }
+
+        /*  sanity check situation  */
+        if (this.closing)
+            throw new ShutdownError()
+        if (this.services.has(service))
+            throw new Error(`register: service "${service}" already registered`)
+
+        if (options.group !== undefined && !options.group.match(/^[^/+#]+$/))
+            throw new Error(`register: invalid group name "${options.group}"`)
+
+        /*  generate the corresponding MQTT topics for broadcast and direct use
+            (where broadcast requests are optionally load-balanced within a group
+            of registrants through an MQTT shared subscription)  */
+        let topicB = this.options.topicServiceRequestMake(service)
+        const topicD = this.options.topicServiceRequestMake(service, this.options.clientId)
+        if (options.group !== undefined)
+            topicB = `$share/${options.group}/${topicB}`
+
+        /*  subscribe to MQTT topics  */
+        const {
+            validate: _validate, group: _group, params: _params, context: _context, authorize: _authorize,
+            concurrency: _concurrency, queueSize: _queueSize, priority: _priority,
+            ...subscribeOptions
+        } = options
+        await Promise.all([
+            this._subscribeTopic(topicB, { qos: 2, ...subscribeOptions }),
+            this._subscribeTopic(topicD, { qos: 2, ...subscribeOptions })
+        ]).catch((err: Error) => {
+            this._unsubscribeTopic(topicB).catch(() => {})
+            this._unsubscribeTopic(topicD).catch(() => {})
+            throw err
+        })
+
+        /*  remember the registration  */
+        this.services.set(service, { callback, options })
+        this._presenceAnnounce()
+
+        /*  provide a registration for subsequent unregistering  */
+        const self = this
+        const registration: Registration = {
+            async unregister (): Promise<void> {
+                if (!self.services.has(service))
+                    throw new Error(`unregister: service "${service}" not registered`)
+                self.services.delete(service)
+                self._presenceAnnounce()
+                return Promise.all([
+                    self._unsubscribeTopic(topicB),
+                    self._unsubscribeTopic(topicD)
+                ]).then(() => {})
+            }
+        }
+        return registration
+    }
+
+    /*  register all methods of an object as RPC services
+        (NOTICE: methods of class instances are found along their prototype
+        chain, while the constructor and methods starting with "_" are skipped)  */
+    async registerAll (
+        implementation: object,
+        prefix?:        string,
+        options:        RegisterOptions = {}
+    ): Promise<Registration> {
+        /*  determine all methods  */
+        const names = new Set<string>()
+        for (let obj = implementation; obj !== null && obj !== Object.prototype; obj = Object.getPrototypeOf(obj))
+            for (const name of Object.getOwnPropertyNames(obj))
+                if (name !== "constructor" && !name.startsWith("_")
+                    && typeof (implementation as Record<string, unknown>)[name] === "function")
+                    names.add(name)
+
+        /*  register all methods (or none at all)  */
+        const registrations = [] as Registration[]
+        try {
+            for (const name of names) {
+                const method = (implementation as Record<string, (...args: any[]) => any>)[name]
+                const service = prefix !== undefined ? `${prefix}/${name}` : name
+                registrations.push(await this.register(service as ServiceKeys<T> & string, options,
+                    method.bind(implementation) as T[ServiceKeys<T> & string]))
+            }
+        }
+        catch (err: unknown) {
+            await Promise.all(registrations.map((registration) => registration.unregister().catch(() => {})))
+            throw err
+        }
+
+        /*  provide a combined registration for subsequent unregistering  */
+        return {
+            async unregister (): Promise<void> {
+                await Promise.all(registrations.map((registration) => registration.unregister()))
+            }
+        }
+    }
+
+    /*  check whether argument has structure of interface IClientPublishOptions  */
+    private _isIClientPublishOptions (arg: any) {
+        if (typeof arg !== "object" || arg === null)
+            return false
+        const keys = [ "qos", "retain", "dup", "properties", "cbStorePut" ]
+        return Object.keys(arg).every((key) => keys.includes(key))
+    }
+
+    /*  wrap options into object (required for type-safe overloading)  */
+    opts<O extends object> (options: O): WrappedOptions<O> {
+        return { __options: options }
+    }
+
+    /*  return options from (optional) wrapper object  */
+    private _getOptions<O> (obj: O | WrappedOptions<O>): O {
+        return this._isWrappedOptions(obj) ? obj.__options : obj
+    }
+
+    /*  detect options wrapper object  */
+    private _isWrappedOptions (obj: any): obj is WrappedOptions<any> {
+        return (typeof obj === "object"
+            && obj !== null
+            && "__options" in obj
+            && typeof obj.__options === "object"
+            && obj.__options !== null
+        )
+    }
+
+    /*  wrap client id into object (required for type-safe overloading)  */
+    clientId (id: string) {
+        return { __clientId: id }
+    }
+
+    /*  return client id from wrapper object  */
+    private _getClientId (obj: ClientId) {
+        return obj.__clientId
+    }
+
+    /*  detect client id wrapper object  */
+    private _isClientId (obj: any): obj is ClientId {
+        return (typeof obj === "object"
+            && obj !== null
+            && "__clientId" in obj
+            && typeof obj.__clientId === "string"
+        )
+    }
+
+    /*  parse optional clientId and options from variadic arguments
+        (where, in front of positional parameters, only wrapped options or plain MQTT.js
+        publish options are taken as options, as any other object is a parameter)  */
+    private _parseCallArgs<T extends any[]> (args: any[], positional = true): { clientId?: string, options: CallAllOptions, params: T } {
+        const isOptions = (arg: any) => this._isWrappedOptions(arg)
+            || (positional && this._isIClientPublishOptions(arg))
+            || (!positional && typeof arg === "object" && arg !== null && !this._isClientId(arg))
+        let clientId: string | undefined
+        let options: CallAllOptions = {}
+        let params = args as T
+        if (args.length >= 2 && this._isClientId(args[0]) && isOptions(args[1])) {
+            clientId = this._getClientId(args[0])
+            options  = this._getOptions(args[1])
             params   = args.slice(2) as T
         }
         else if (args.length >= 1 && this._isClientId(args[0])) {
             clientId = this._getClientId(args[0])
             params   = args.slice(1) as T
         }
-        else if (args.length >= 1 && this._isIClientPublishOptions(args[0])) {
-            options = args[0]
+        else if (args.length >= 1 && isOptions(args[0])) {
+            options = this._getOptions(args[0])
             params  = args.slice(1) as T
         }
         return { clientId, options, params }
@@ -371,13 +1964,13 @@ export default class API<T extends APISchema = APISchema> {
     ): void
     emit<K extends EventKeys<T> & string> (
         event:     K,
-        options:   IClientPublishOptions,
+        options:   WrappedOptions<EmitOptions> | IClientPublishOptions,
         ...params: Parameters<T[K]>
     ): void
     emit<K extends EventKeys<T> & string> (
         event:     K,
         clientId:  ClientId,
-        options:   IClientPublishOptions,
+        options:   WrappedOptions<EmitOptions> | IClientPublishOptions,
         ...params: Parameters<T[K]>
     ): void
     emit<K extends EventKeys<T> & string> (
@@ -386,89 +1979,1091 @@ export default class API<T extends APISchema = APISchema> {
     ): void {
         /*  determine actual parameters  */
         const { clientId, options, params } = this._parseCallArgs<Parameters<T[K]>>(args)
+        this._emit(event, clientId, options, params, false)
+    }
+
+    /*  emit event with named parameters ("fire and forget")  */
+    emitNamed<K extends EventKeys<T> & string> (
+        event:     K,
+        params:    NamedParams<T[K]>
+    ): void
+    emitNamed<K extends EventKeys<T> & string> (
+        event:     K,
+        clientId:  ClientId,
+        params:    NamedParams<T[K]>
+    ): void
+    emitNamed<K extends EventKeys<T> & string> (
+        event:     K,
+        options:   EmitOptions | WrappedOptions<EmitOptions>,
+        params:    NamedParams<T[K]>
+    ): void
+    emitNamed<K extends EventKeys<T> & string> (
+        event:     K,
+        clientId:  ClientId,
+        options:   EmitOptions | WrappedOptions<EmitOptions>,
+        params:    NamedParams<T[K]>
+    ): void
+    emitNamed<K extends EventKeys<T> & string> (
+        event:     K,
+        ...args:   any[]
+    ): void {
+        /*  determine actual parameters (where the named parameters are always last)  */
+        const params = this._namedParams("emitNamed", args[args.length - 1])
+        const { clientId, options } = this._parseCallArgs<[]>(args.slice(0, -1), false)
+        this._emit(event, clientId, options, [ params ], true)
+    }
+
+    /*  emit event (with either positional or named parameters)  */
+    private _emit (event: string, clientId: string | undefined, options: EmitOptions, params: any[], named: boolean): void {
+        const { trace, ...publishOptions } = options
 
         /*  generate corresponding MQTT topic  */
         const topic = this.options.topicEventNoticeMake(event, clientId)
 
-        /*  generate encoded JSON-RPC message  */
-        const request = JSONRPC.notification(event, params)
-        const message = this.codec.encode(request)
+        /*  pass event through interceptors  */
+        const ctx: InterceptorContext = {
+            direction: "outgoing", kind: "notification",
+            method: event, params, named, topic, clientId
+        }
+        this._intercept(ctx, async (ctx) => {
+            /*  generate JSON-RPC message and publish it to MQTT topic (once online)  */
+            const request = JSONRPC.notification(ctx.method, ctx.named ? ctx.params[0] : ctx.params)
+            await this._whenOnline()
+            const span = this._traceStart("emit", ctx.method, ctx.clientId, trace)
+            this._publish(ctx.topic, this.codec, request, { qos: 2, ...publishOptions },
+                { sender: this.options.clientId, ...this._traceMeta(span) })
+            this._traceEnd(span)
+            this._statsEvent(ctx.method).emitted++
+        }).catch((err: Error) => {
+            this.mqtt.emit("error", err)
+        })
+    }
+
+    /*  call service ("request and response")  */
+    call<K extends ServiceKeys<T> & string> (
+        service:   K,
+        ...params: Parameters<T[K]>
+    ): Promise<ServiceResult<ReturnType<T[K]>>>
+    call<K extends ServiceKeys<T> & string> (
+        service:   K,
+        clientId:  ClientId,
+        ...params: Parameters<T[K]>
+    ): Promise<ServiceResult<ReturnType<T[K]>>>
+    call<K extends ServiceKeys<T> & string> (
+        service:   K,
+        options:   WrappedOptions<CallOptions> | IClientPublishOptions,
+        ...params: Parameters<T[K]>
+    ): Promise<ServiceResult<ReturnType<T[K]>>>
+    call<K extends ServiceKeys<T> & string> (
+        service:   K,
+        clientId:  ClientId,
+        options:   WrappedOptions<CallOptions> | IClientPublishOptions,
+        ...params: Parameters<T[K]>
+    ): Promise<ServiceResult<ReturnType<T[K]>>>
+    call<K extends ServiceKeys<T> & string> (
+        service:   K,
+        ...args:   any[]
+    ): Promise<ServiceResult<ReturnType<T[K]>>> {
+        /*  determine actual parameters  */
+        const { clientId, options, params } = this._parseCallArgs<Parameters<T[K]>>(args)
+        return this._call(service, clientId, options, params, false)
+    }
+
+    /*  call service with named parameters ("request and response")  */
+    callNamed<K extends ServiceKeys<T> & string> (
+        service:   K,
+        params:    NamedParams<T[K]>
+    ): Promise<ServiceResult<ReturnType<T[K]>>>
+    callNamed<K extends ServiceKeys<T> & string> (
+        service:   K,
+        clientId:  ClientId,
+        params:    NamedParams<T[K]>
+    ): Promise<ServiceResult<ReturnType<T[K]>>>
+    callNamed<K extends ServiceKeys<T> & string> (
+        service:   K,
+        options:   CallOptions | WrappedOptions<CallOptions>,
+        params:    NamedParams<T[K]>
+    ): Promise<ServiceResult<ReturnType<T[K]>>>
+    callNamed<K extends ServiceKeys<T> & string> (
+        service:   K,
+        clientId:  ClientId,
+        options:   CallOptions | WrappedOptions<CallOptions>,
+        params:    NamedParams<T[K]>
+    ): Promise<ServiceResult<ReturnType<T[K]>>>
+    callNamed<K extends ServiceKeys<T> & string> (
+        service:   K,
+        ...args:   any[]
+    ): Promise<ServiceResult<ReturnType<T[K]>>> {
+        /*  determine actual parameters (where the named parameters are always last)  */
+        let params: Record<string, any>
+        try {
+            params = this._namedParams("callNamed", args[args.length - 1])
+        }
+        catch (err: unknown) {
+            return Promise.reject(err)
+        }
+        const { clientId, options } = this._parseCallArgs<[]>(args.slice(0, -1), false)
+        return this._call(service, clientId, options, [ params ], true)
+    }
+
+    /*  call service (with either positional or named parameters)  */
+    private _call (service: string, clientId: string | undefined, options: CallOptions, params: any[], named: boolean): Promise<any> {
+        /*  generate corresponding MQTT topic  */
+        const topic = this.options.topicServiceRequestMake(service, clientId)
+
+        /*  pass request through interceptors  */
+        const ctx: InterceptorContext = {
+            direction: "outgoing", kind: "request",
+            method: service, params, named, topic, clientId
+        }
+        return this._intercept(ctx, (ctx) => this._request(ctx, options))
+    }
+
+    /*  ensure named parameters are given as an object  */
+    private _namedParams (method: string, params: any): Record<string, any> {
+        if (typeof params !== "object" || params === null || Array.isArray(params) || this._isClientId(params))
+            throw new Error(`${method}: named parameters have to be given as an object`)
+        return params
+    }
+
+    /*  map received (positional or named) parameters onto the arguments of a handler  */
+    private _mapParams (params: RpcParams | undefined, spec: ParamsSpec = {}): any[] {
+        const names = spec.names
+        if (params !== undefined && (typeof params !== "object" || params === null))
+            throw JsonRpcError.invalidParams("parameters have to be an array or an object")
+        if (spec.style === "named") {
+            /*  provide named parameters object (optionally mapped from positional parameters)  */
+            if (params === undefined)
+                return [ {} ]
+            if (!Array.isArray(params))
+                return [ params ]
+            if (names === undefined)
+                throw JsonRpcError.invalidParams("positional parameters not supported")
+            if (params.length > names.length)
+                throw JsonRpcError.invalidParams("too many positional parameters")
+            return [ Object.fromEntries(params.map((value, i) => [ names[i], value ])) ]
+        }
+        else {
+            /*  provide positional parameters (optionally mapped from named parameters)  */
+            if (params === undefined)
+                return []
+            if (Array.isArray(params))
+                return Array.from(params)
+            if (names === undefined)
+                throw JsonRpcError.invalidParams("named parameters not supported")
+            const unknown = Object.keys(params).filter((name) => !names.includes(name))
+            if (unknown.length > 0)
+                throw JsonRpcError.invalidParams({ unknown })
+            return names.map((name) => (params as Record<string, any>)[name])
+        }
+    }
+
+    /*  call service with streamed results ("request and response stream")  */
+    callStream<K extends ServiceKeys<T> & string> (
+        service:   K,
+        ...params: Parameters<T[K]>
+    ): AsyncIterableIterator<ServiceStreamItem<ReturnType<T[K]>>>
+    callStream<K extends ServiceKeys<T> & string> (
+        service:   K,
+        clientId:  ClientId,
+        ...params: Parameters<T[K]>
+    ): AsyncIterableIterator<ServiceStreamItem<ReturnType<T[K]>>>
+    callStream<K extends ServiceKeys<T> & string> (
+        service:   K,
+        options:   WrappedOptions<CallOptions> | IClientPublishOptions,
+        ...params: Parameters<T[K]>
+    ): AsyncIterableIterator<ServiceStreamItem<ReturnType<T[K]>>>
+    callStream<K extends ServiceKeys<T> & string> (
+        service:   K,
+        clientId:  ClientId,
+        options:   WrappedOptions<CallOptions> | IClientPublishOptions,
+        ...params: Parameters<T[K]>
+    ): AsyncIterableIterator<ServiceStreamItem<ReturnType<T[K]>>>
+    callStream<K extends ServiceKeys<T> & string> (
+        service:   K,
+        ...args:   any[]
+    ): AsyncIterableIterator<ServiceStreamItem<ReturnType<T[K]>>> {
+        /*  determine actual parameters  */
+        const { clientId, options, params } = this._parseCallArgs<Parameters<T[K]>>(args)
+
+        /*  allow the stream to be cancelled by both the caller and the consumer  */
+        const { signal, ...callOptions } = options
+        const controller = new AbortController()
+        if (signal !== undefined) {
+            if (signal.aborted)
+                controller.abort(signal.reason)
+            else
+                signal.addEventListener("abort", () => { controller.abort(signal.reason) }, { once: true })
+        }
+
+        /*  queue the received items until they are consumed  */
+        const queue = [] as ServiceStreamItem<ReturnType<T[K]>>[]
+        let finished = false
+        let failure: any = undefined
+        let waiting: { resolve: (result: IteratorResult<any>) => void, reject: (err: any) => void } | null = null
+        const wakeup = () => {
+            if (waiting === null)
+                return
+            const { resolve, reject } = waiting
+            waiting = null
+            if (queue.length > 0)
+                resolve({ value: queue.shift()!, done: false })
+            else if (failure !== undefined) {
+                reject(failure)
+                failure = undefined
+            }
+            else if (finished)
+                resolve({ value: undefined, done: true })
+        }
+
+        /*  generate corresponding MQTT topic  */
+        const topic = this.options.topicServiceRequestMake(service, clientId)
+
+        /*  pass request through interceptors  */
+        const ctx: InterceptorContext = {
+            direction: "outgoing", kind: "request",
+            method: service, params, topic, clientId
+        }
+        this._intercept(ctx, (ctx) => this._request(ctx, { ...callOptions, signal: controller.signal }, (item: any) => {
+            queue.push(item)
+            wakeup()
+        })).then(() => {
+            finished = true
+            wakeup()
+        }, (err: any) => {
+            if (!finished)
+                failure = err ?? new Error("unknown error")
+            finished = true
+            wakeup()
+        })
+
+        /*  provide asynchronous iterator for consuming the items  */
+        const iterator: AsyncIterableIterator<ServiceStreamItem<ReturnType<T[K]>>> = {
+            next () {
+                return new Promise((resolve, reject) => {
+                    waiting = { resolve, reject }
+                    if (queue.length > 0 || finished)
+                        wakeup()
+                })
+            },
+            async return () {
+                if (!finished) {
+                    finished = true
+                    controller.abort(new Error("stream closed"))
+                }
+                queue.length = 0
+                return { value: undefined, done: true }
+            },
+            [Symbol.asyncIterator] () {
+                return iterator
+            }
+        }
+        return iterator
+    }
+
+    /*  call service on all registrants ("request and responses")  */
+    callAll<K extends ServiceKeys<T> & string> (
+        service:   K,
+        ...params: Parameters<T[K]>
+    ): Promise<CallAllResponse<ServiceResult<ReturnType<T[K]>>>[]>
+    callAll<K extends ServiceKeys<T> & string> (
+        service:   K,
+        options:   WrappedOptions<CallAllOptions> | IClientPublishOptions,
+        ...params: Parameters<T[K]>
+    ): Promise<CallAllResponse<ServiceResult<ReturnType<T[K]>>>[]>
+    callAll<K extends ServiceKeys<T> & string> (
+        service:   K,
+        ...args:   any[]
+    ): Promise<CallAllResponse<ServiceResult<ReturnType<T[K]>>>[]> {
+        /*  determine actual parameters  */
+        const { options, params } = this._parseCallArgs<Parameters<T[K]>>(args)
+        const { count, ...callOptions } = options
+
+        /*  generate corresponding MQTT topic  */
+        const topic = this.options.topicServiceRequestMake(service)
+
+        /*  pass request through interceptors  */
+        const ctx: InterceptorContext = {
+            direction: "outgoing", kind: "request",
+            method: service, params, topic
+        }
+        return this._intercept(ctx, (ctx) => this._request(ctx, callOptions, undefined, { count }))
+    }
+
+    /*  create batch of service calls and event emissions ("multiple requests and responses")  */
+    batch (): Batch<T>
+    batch (clientId: ClientId): Batch<T>
+    batch (options: CallOptions | WrappedOptions<CallOptions>): Batch<T>
+    batch (clientId: ClientId, options: CallOptions | WrappedOptions<CallOptions>): Batch<T>
+    batch (...args: any[]): Batch<T> {
+        /*  determine actual parameters  */
+        const { clientId, options } = this._parseCallArgs<[]>(args, false)
+
+        /*  the batch entries (in order of their creation)  */
+        const entries = [] as {
+            queued:    Promise<void>,
+            message?:  JsonRpc,
+            deadline?: number,
+            fail?:     (err: Error) => void
+        }[]
+        let topic:           string | undefined
+        let responseService: string | undefined
+        let sent = false
+
+        /*  pass a batch entry through interceptors and queue its message  */
+        const enqueue = (ctx: InterceptorContext, final: (ctx: InterceptorContext, entry: typeof entries[0]) => any) => {
+            if (sent)
+                throw new Error("batch: already sent")
+            let queue: () => void = () => {}
+            const entry: typeof entries[0] = { queued: new Promise<void>((resolve) => { queue = resolve }) }
+            entries.push(entry)
+            const result = this._intercept(ctx, (ctx) => {
+                try { return final(ctx, entry) }
+                finally { queue() }
+            })
+
+            /*  consider an entry also as queued if an interceptor skipped it  */
+            result.then(queue, queue)
+            return result
+        }
+
+        const self = this
+        const batch: Batch<T> = {
+            call<K extends ServiceKeys<T> & string> (service: K, ...params: Parameters<T[K]>) {
+                /*  the first entry determines the MQTT topic and the first call the response topic
+                    (where calls have to precede emissions, as requests are refused on event topics)  */
+                if (topic !== undefined && responseService === undefined)
+                    throw new Error("batch: calls have to precede emissions")
+                topic           ??= self.options.topicServiceRequestMake(service, clientId)
+                responseService ??= service
+                const ctx: InterceptorContext = {
+                    direction: "outgoing", kind: "request",
+                    method: service, params, topic, clientId
+                }
+                return enqueue(ctx, (ctx, entry) => {
+                    if (options.signal?.aborted)
+                        throw options.signal.reason ?? new Error("call aborted")
+                    const pending = self._requestPending(ctx, self._requestId(), options, responseService!, false)
+                    entry.message  = pending.request
+                    entry.deadline = pending.deadline
+                    entry.fail     = pending.fail
+                    return pending.promise
+                })
+            },
+            emit<K extends EventKeys<T> & string> (event: K, ...params: Parameters<T[K]>) {
+                topic ??= self.options.topicEventNoticeMake(event, clientId)
+                const ctx: InterceptorContext = {
+                    direction: "outgoing", kind: "notification",
+                    method: event, params, topic, clientId
+                }
+                enqueue(ctx, (ctx, entry) => {
+                    entry.message = JSONRPC.notification(ctx.method, ctx.params)
+                    self._statsEvent(ctx.method).emitted++
+                }).catch((err: Error) => {
+                    self.mqtt.emit("error", err)
+                })
+            },
+            async send () {
+                if (sent)
+                    throw new Error("batch: already sent")
+                sent = true
+
+                /*  determine the messages of all (not skipped) entries  */
+                await Promise.all(entries.map((entry) => entry.queued))
+                const messages = entries
+                    .filter((entry) => entry.message !== undefined)
+                    .map((entry) => entry.message!)
+                if (messages.length === 0)
+                    return
+
+                /*  determine MQTT publish options
+                    (with a response topic, but without any correlation data,
+                    as the responses are correlated by their request ids)  */
+                const {
+                    signal: _signal, timeout: _timeout, deadline: _deadline, retry: _retry, trace,
+                    ...publishOptions
+                } = options
+                let publish: IClientPublishOptions = { qos: 2, ...publishOptions }
+                if (responseService !== undefined && self._useMQTTv5RequestResponse())
+                    publish = { ...publish, properties: {
+                        ...publish.properties,
+                        responseTopic: self.options.topicServiceResponseMake(responseService, self.options.clientId)
+                    } }
+
+                /*  send MQTT batch message (once online)  */
+                await self._whenOnline(options.signal).catch((err: Error) => {
+                    for (const entry of entries)
+                        entry.fail?.(err)
+                    throw err
+                })
+                const span = self._traceStart("batch", responseService ?? (messages[0] as NotificationObject).method, clientId, trace)
+                const deadlines = entries
+                    .filter((entry) => entry.deadline !== undefined)
+                    .map((entry) => entry.deadline!)
+                await new Promise<void>((resolve, reject) => {
+                    const meta: Metadata = { sender: self.options.clientId, ...self._traceMeta(span) }
+                    if (deadlines.length > 0)
+                        meta.budget = self._budgetOf(Math.min(...deadlines))
+                    self._publish(topic!, self.codec, messages, publish, meta, (err?: Error) => {
+                        self._traceEnd(span, err)
+                        if (err) {
+                            for (const entry of entries)
+                                entry.fail?.(err)
+                            reject(err)
+                        }
+                        else
+                            resolve()
+                    })
+                })
+            }
+        }
+        return batch
+    }
+
+    /*  create proxy for calling services and emitting events by method access
+        (NOTICE: the names are either accessed as a whole or split into their
+        segments, and as "then" is never provided, the proxy is not a thenable)  */
+    proxy (...args: ProxyArgs<T>): APIProxy<T> {
+        const options: { events?: string[], clientId?: ClientId } = args[0] ?? {}
+        const events = new Set<string>(options.events ?? [])
+        const target = (path: string[]): any => new Proxy(() => {}, {
+            get: (_target, key) => {
+                if (typeof key === "symbol" || key === "then")
+                    return undefined
+                return target([ ...path, key ])
+            },
+            apply: (_target, _self, params: any[]) => {
+                const name = path.join("/")
+                const args = options.clientId !== undefined ? [ options.clientId, ...params ] : params
+                if (events.has(name))
+                    return (this.emit as (name: string, ...args: any[]) => void)(name, ...args)
+                return (this.call as (name: string, ...args: any[]) => Promise<any>)(name, ...args)
+            }
+        })
+        return target([]) as APIProxy<T>
+    }
+
+    /*  perform a service request  */
+    private _request (
+        ctx:         InterceptorContext,
+        callOptions: CallOptions,
+        onItem?:     (item: any) => void,
+        collect?:    { count?: number }
+    ): Promise<any> {
+        /*  short-circuit processing if call was already aborted  */
+        if (callOptions.signal?.aborted)
+            return Promise.reject(callOptions.signal.reason ?? new Error("call aborted"))
+
+        /*  determine retry policy (for regular calls only)  */
+        const signal = callOptions.signal
+        const policy = onItem === undefined && collect === undefined && callOptions.retry !== false
+            ? (callOptions.retry ?? this.options.retryPolicies[ctx.method])
+            : undefined
+
+        /*  start tracing span (spanning all attempts)  */
+        const span = this._traceStart("call", ctx.method, ctx.clientId, callOptions.trace)
+        const meta = this._traceMeta(span)
+
+        /*  perform a single attempt
+            (where all attempts share the same request id, so the service can suppress duplicates)  */
+        const rid = this._requestId()
+        const attempt = (n: number): Promise<any> => {
+            /*  wait until online (according to the offline policy, but at most the timeout of the call)  */
+            const timeout = callOptions.timeout ?? this.options.timeout
+            const queued  = Date.now()
+            return this._whenOnline(signal, timeout).then(() => {
+                /*  prepare request (with the timeout reduced by the time waited for being online,
+                    except for streamed results, as they restart the timeout with each item)  */
+                const waited = Date.now() - queued
+                const options = waited > 0 && onItem === undefined
+                    ? { ...callOptions, timeout: Math.max(0, timeout - waited) }
+                    : callOptions
+                const pending = this._requestPending(ctx, rid, options, ctx.method, true, onItem, collect)
+
+                /*  send MQTT request message  */
+                const attemptMeta = pending.deadline !== undefined ? { ...meta, budget: this._budgetOf(pending.deadline) } : meta
+                this._publish(ctx.topic, this.codec, pending.request, pending.options, attemptMeta, (err?: Error) => {
+                    /*  handle request failure  */
+                    if (err)
+                        pending.fail(err)
+                })
+
+                return pending.promise
+            }).catch((err: Error) => {
+                /*  retry failed attempt with exponential backoff (if allowed)  */
+                if (policy === undefined || n >= policy.attempts || signal?.aborted || this.destroyed
+                    || !(policy.retryable ?? ((err) => !(err instanceof RpcError) || err.code === ERROR_BUSY))(err))
+                    throw err
+                const delay = Math.min(policy.maxDelay ?? 10 * 1000,
+                    (policy.delay ?? 100) * Math.pow(policy.factor ?? 2, n - 1))
+                const jitter = delay * (policy.jitter ?? 0) * (Math.random() * 2 - 1)
+                return new Promise<void>((resolve, reject) => {
+                    const onAbort = () => {
+                        clearTimeout(timer)
+                        reject(signal!.reason ?? new Error("call aborted"))
+                    }
+                    const timer = setTimeout(() => {
+                        signal?.removeEventListener("abort", onAbort)
+                        resolve()
+                    }, Math.max(0, delay + jitter))
+                    signal?.addEventListener("abort", onAbort, { once: true })
+                }).then(() => attempt(n + 1))
+            })
+        }
+        const result = attempt(1)
+        result.then(() => { this._traceEnd(span) }, (err: Error) => { this._traceEnd(span, err) })
+        return result
+    }
 
-        /*  publish JSON-RPC message to MQTT topic  */
-        this.mqtt.publish(topic, message, { qos: 2, ...options })
+    /*  determine unique request id
+        (NOTICE: without the MQTT 5.0 response topic, the clientId
+        prefix is necessary to later determine response topic, and
+        it is always used, as MQTT 3.1.1 peers do not receive the
+        MQTT 5.0 response topic)  */
+    private _requestId (): string {
+        return `${this.options.clientId}:${(new UUID(1)).format("std")}`
     }
 
-    /*  call service ("request and response")  */
-    call<K extends ServiceKeys<T> & string> (
-        service:   K,
-        ...params: Parameters<T[K]>
-    ): Promise<Awaited<ReturnType<T[K]>>>
-    call<K extends ServiceKeys<T> & string> (
-        service:   K,
-        clientId:  ClientId,
-        ...params: Parameters<T[K]>
-    ): Promise<Awaited<ReturnType<T[K]>>>
-    call<K extends ServiceKeys<T> & string> (
-        service:   K,
+    /*  prepare a pending service request (without sending it)  */
+    private _requestPending (
+        ctx:             InterceptorContext,
+        rid:             string,
+        callOptions:     CallOptions,
+        responseService: string,
+        correlate:       boolean,
+        onItem?:         (item: any) => void,
+        collect?:        { count?: number }
+    ): {
+        rid:       string,
+        request:   RequestObject,
         options:   IClientPublishOptions,
-        ...params: Parameters<T[K]>
-    ): Promise<Awaited<ReturnType<T[K]>>>
-    call<K extends ServiceKeys<T> & string> (
-        service:   K,
-        clientId:  ClientId,
-        options:   IClientPublishOptions,
-        ...params: Parameters<T[K]>
-    ): Promise<Awaited<ReturnType<T[K]>>>
-    call<K extends ServiceKeys<T> & string> (
-        service:   K,
-        ...args:   any[]
-    ): Promise<Awaited<ReturnType<T[K]>>> {
-        /*  determine actual parameters  */
-        const { clientId, options, params } = this._parseCallArgs<Parameters<T[K]>>(args)
+        deadline?: number,
+        promise:   Promise<any>,
+        fail:      (err: Error) => void
+    } {
+        if (this.destroyed)
+            throw new ShutdownError()
+        const service = ctx.method
+        const {
+            signal, timeout = this.options.timeout, deadline: deadlineGiven, retry: _retry, trace: _trace,
+            ...publishOptions
+        } = callOptions
+        let options: IClientPublishOptions = { qos: 2, ...publishOptions }
+
+        /*  determine the deadline of the request, i.e., the end of our timeout, but
+            at most the explicitly given deadline or the deadline of the current
+            service handler (NOTICE: streamed results restart the timeout with each
+            item, so streamed requests carry only such an inherited deadline)  */
+        const inherited = deadlineGiven?.getTime() ?? this.options.deadlineStorage?.getStore()
+        const timeoutOf = () => inherited !== undefined
+            ? Math.max(0, Math.min(timeout, inherited - Date.now()))
+            : timeout
+        const deadline = onItem === undefined ? Date.now() + timeoutOf() : inherited
 
-        /*  determine unique request id
-            (NOTICE: the clientId prefix is necessary to later determine response topic)  */
-        const rid: string = `${this.options.clientId}:${(new UUID(1)).format("std")}`
+        /*  let the response be sent to our response topic  */
+        if (this._useMQTTv5RequestResponse())
+            options = { ...options, properties: {
+                ...options.properties,
+                responseTopic: this.options.topicServiceResponseMake(responseService, this.options.clientId),
+                ...(correlate ? { correlationData: Buffer.from(rid) } : {})
+            } }
 
         /*  subscribe to MQTT response topic  */
-        this._responseSubscribe(service, { qos: options.qos ?? 2 })
+        this._responseSubscribe(responseService, { qos: options.qos ?? 2 })
 
         /*  create promise for MQTT response handling  */
-        const promise: Promise<Awaited<ReturnType<T[K]>>> = new Promise((resolve, reject) => {
-            let timer: NodeJS.Timeout | null = setTimeout(() => {
-                this.requests.delete(rid)
-                this._responseUnsubscribe(service)
-                timer = null
-                reject(new Error("communication timeout"))
-            }, this.options.timeout)
+        let fail: (err: any) => void = () => {}
+        let timedOut = false
+        const promise = new Promise<any>((resolve, reject) => {
+            let timer: NodeJS.Timeout | null = null
+            const timerStop = () => {
+                if (timer !== null) {
+                    clearTimeout(timer)
+                    timer = null
+                }
+            }
+            const timerStart = () => {
+                timerStop()
+                timer = setTimeout(() => {
+                    if (this.requests.delete(rid))
+                        this._responseUnsubscribe(responseService)
+                    timer = null
+                    signal?.removeEventListener("abort", onAbort)
+                    if (collect !== undefined)
+                        resolve(responses)
+                    else {
+                        timedOut = true
+                        reject(new Error("communication timeout"))
+                    }
+                }, timeoutOf())
+            }
+            const onAbort = () => {
+                if (!this.requests.delete(rid))
+                    return
+                this._responseUnsubscribe(responseService)
+                timerStop()
+
+                /*  tell the service to cancel the processing of the request  */
+                const cancel = JSONRPC.notification("rpc.cancel", [ rid ])
+                this._publish(ctx.topic, this.codec, cancel, { qos: options.qos ?? 2 })
+                reject(signal!.reason ?? new Error("call aborted"))
+            }
+            const settle = (err: any, result: any) => {
+                timerStop()
+                signal?.removeEventListener("abort", onAbort)
+                if (err) reject(err)
+                else     resolve(result)
+            }
+            fail = (err: any) => { settle(err, undefined) }
+            timerStart()
+            signal?.addEventListener("abort", onAbort, { once: true })
+
+            /*  deliver streamed results in order of their sequence numbers
+                (either individually or collected into a single result,
+                where the streams of all registrants are kept apart)  */
+            const streams = new Map<string | undefined, { items: any[], frames: Map<number, StreamFrame>, seq: number }>()
+
+            /*  collect the responses of all registrants  */
+            const responses = [] as CallAllResponse<any>[]
+            const respond = (response: CallAllResponse<any>) => {
+                responses.push(response)
+                if (collect!.count !== undefined && responses.length >= collect!.count) {
+                    if (this.requests.delete(rid))
+                        this._responseUnsubscribe(responseService)
+                    settle(undefined, responses)
+                }
+            }
+
             this.requests.set(rid, {
                 service,
-                callback: (err: any, result: Awaited<ReturnType<T[K]>>) => {
-                    if (timer !== null) {
-                        clearTimeout(timer)
-                        timer = null
+                responseService,
+                collect: collect !== undefined,
+                callback: (err: any, result: any, sender?: string) => {
+                    if (collect !== undefined) {
+                        respond(err ? { clientId: sender, error: err } : { clientId: sender, result })
+                        return
                     }
-                    if (err) reject(err)
-                    else     resolve(result)
-                }
+                    if (!err && onItem !== undefined) {
+                        onItem(result)
+                        result = undefined
+                    }
+                    settle(err, result)
+                },
+                stream: (frame: StreamFrame, sender?: string) => {
+                    if (collect === undefined)
+                        timerStart()
+                    const key = collect !== undefined ? sender : undefined
+                    let stream = streams.get(key)
+                    if (stream === undefined) {
+                        stream = { items: [], frames: new Map<number, StreamFrame>(), seq: 0 }
+                        streams.set(key, stream)
+                    }
+                    stream.frames.set(frame.seq, frame)
+                    let next: StreamFrame | undefined
+                    while ((next = stream.frames.get(stream.seq)) !== undefined) {
+                        stream.frames.delete(stream.seq++)
+                        if (next.error !== undefined || next.done) {
+                            const error = next.error !== undefined
+                                ? this._errorDeserialize(next.error, service, sender)
+                                : undefined
+                            if (collect !== undefined) {
+                                streams.delete(key)
+                                respond(error !== undefined
+                                    ? { clientId: sender, error }
+                                    : { clientId: sender, result: stream.items })
+                                break
+                            }
+                            if (this.requests.delete(rid))
+                                this._responseUnsubscribe(responseService)
+                            settle(error, onItem !== undefined ? undefined : stream.items)
+                            break
+                        }
+                        if (onItem !== undefined)
+                            onItem(next.value)
+                        else
+                            stream.items.push(next.value)
+                    }
+                },
+                fail
             })
         })
-        const request = JSONRPC.request(rid, service, params)
+        const request = JSONRPC.request(rid, service, ctx.named ? ctx.params[0] : ctx.params)
 
-        /*  send MQTT request message  */
-        const topic = this.options.topicServiceRequestMake(service, clientId)
-        const message = this.codec.encode(request)
-        this.mqtt.publish(topic, message, { qos: 2, ...options }, (err?: Error) => {
-            /*  handle request failure  */
-            const pendingRequest = this.requests.get(rid)
-            if (err && pendingRequest !== undefined) {
-                this.requests.delete(rid)
-                this._responseUnsubscribe(service)
-                pendingRequest.callback(err, undefined)
+        /*  track the outcome and round trip time of the request  */
+        const stats = this._statsService(service)
+        const started = Date.now()
+        stats.sent++
+        promise.then(() => {
+            stats.succeeded++
+            this._observe(stats.latency, Date.now() - started)
+        }, () => {
+            if (timedOut)
+                stats.timedOut++
+            else {
+                stats.failed++
+                this._observe(stats.latency, Date.now() - started)
+            }
+        })
+
+        /*  handle request failure  */
+        const failRequest = (err: Error) => {
+            if (this.requests.delete(rid)) {
+                this._responseUnsubscribe(responseService)
+                fail(err)
+            }
+        }
+
+        return { rid, request, options, deadline, promise, fail: failRequest }
+    }
+
+    /*  validate a value  */
+    private _validate (validator: Validator, value: any): { valid: boolean, details?: unknown } {
+        const result = validator(value)
+        if (result === true || result === null || result === undefined
+            || (Array.isArray(result) && result.length === 0))
+            return { valid: true }
+        return { valid: false, details: result === false ? undefined : result }
+    }
+
+    /*  validate parameters (either as a whole or individually)  */
+    private _validateParams (validator: Validator | Validator[], params: any[]): { valid: boolean, details?: unknown } {
+        if (!Array.isArray(validator))
+            return this._validate(validator, params)
+        const details = [] as { param: number, details?: unknown }[]
+        validator.forEach((validator, i) => {
+            const validation = this._validate(validator, params[i])
+            if (!validation.valid)
+                details.push({ param: i, details: validation.details })
+        })
+        return details.length === 0 ? { valid: true } : { valid: false, details }
+    }
+
+    /*  acquire a slot for executing a service handler within the global and
+        per-service concurrency limits (by either taking a free slot immediately,
+        waiting in the bounded queue or rejecting the request as busy)  */
+    private async _slotAcquire (service: string, options: RegisterOptions, signal: AbortSignal): Promise<void> {
+        /*  take a free slot immediately  */
+        if (this._slotAvailable(service, options.concurrency)) {
+            this._slotTake(service)
+            return
+        }
+
+        /*  reject request if the queue is full  */
+        const stats = this._statsService(service)
+        const queued = this.slotQueue.filter((entry) => entry.service === service).length
+        if (this.slotQueue.length >= this.options.requestQueueSize
+            || (options.queueSize !== undefined && queued >= options.queueSize)) {
+            stats.rejected++
+            throw new JsonRpcError("Server busy", ERROR_BUSY)
+        }
+
+        /*  wait in the queue for a free slot (in the order of priority)  */
+        stats.queued++
+        return new Promise<void>((resolve, reject) => {
+            const onAbort = () => {
+                const i = this.slotQueue.indexOf(entry)
+                if (i >= 0)
+                    this.slotQueue.splice(i, 1)
+                stats.queued--
+                reject(signal.reason)
+            }
+            const entry = {
+                service,
+                concurrency: options.concurrency,
+                priority:    options.priority ?? 0,
+                resolve:     () => {
+                    signal.removeEventListener("abort", onAbort)
+                    stats.queued--
+                    resolve()
+                }
+            }
+            signal.addEventListener("abort", onAbort, { once: true })
+            const i = this.slotQueue.findIndex((other) => other.priority < entry.priority)
+            this.slotQueue.splice(i >= 0 ? i : this.slotQueue.length, 0, entry)
+        })
+    }
+
+    /*  release a slot for executing a service handler (and pass it on to waiting requests)  */
+    private _slotRelease (service: string): void {
+        this.slots.running--
+        const running = (this.slots.services.get(service) ?? 1) - 1
+        if (running > 0)
+            this.slots.services.set(service, running)
+        else
+            this.slots.services.delete(service)
+        for (let i = 0; i < this.slotQueue.length;) {
+            const entry = this.slotQueue[i]
+            if (this._slotAvailable(entry.service, entry.concurrency)) {
+                this.slotQueue.splice(i, 1)
+                this._slotTake(entry.service)
+                entry.resolve()
             }
+            else
+                i++
+        }
+    }
+
+    /*  check whether a slot for executing a service handler is available  */
+    private _slotAvailable (service: string, concurrency?: number): boolean {
+        return (this.options.concurrency <= 0 || this.slots.running < this.options.concurrency)
+            && (concurrency === undefined || concurrency <= 0 || (this.slots.services.get(service) ?? 0) < concurrency)
+    }
+
+    /*  take a slot for executing a service handler  */
+    private _slotTake (service: string): void {
+        this.slots.running++
+        this.slots.services.set(service, (this.slots.services.get(service) ?? 0) + 1)
+    }
+
+    /*  determine the subscribers of an event (including the subscribers of matching event patterns)  */
+    private _eventHandlers (event: string): EventHandler[] {
+        const handlers = [] as EventHandler[]
+        for (const [ pattern, entry ] of this.events)
+            if (this._patternMatch(pattern, event))
+                handlers.push(...entry.handlers)
+        return handlers
+    }
+
+    /*  match a name against a pattern (with the MQTT topic filter wildcards "+" and "#")  */
+    private _patternMatch (pattern: string, name: string): boolean {
+        const patternLevels = pattern.split("/")
+        const nameLevels    = name.split("/")
+        for (let i = 0; i < patternLevels.length; i++) {
+            if (patternLevels[i] === "#")
+                return true
+            if (i >= nameLevels.length || (patternLevels[i] !== "+" && patternLevels[i] !== nameLevels[i]))
+                return false
+        }
+        return patternLevels.length === nameLevels.length
+    }
+
+    /*  create the context of a handler invocation  */
+    private _handlerContext (
+        topic:    string,
+        packet:   IPublishPacket | undefined,
+        received: Date,
+        context:  Pick<HandlerContext, "method" | "clientId" | "requestId" | "directed" | "keyId" | "trace" | "deadline" | "signal">
+    ): HandlerContext {
+        return {
+            ...context,
+            topic,
+            qos:            packet?.qos ?? 0,
+            retain:         packet?.retain ?? false,
+            userProperties: packet?.properties?.userProperties ?? {},
+            received
+        }
+    }
+
+    /*  start a tracing span (as a child of the explicit, the current or no parent span)  */
+    private _traceStart (kind: TraceSpan["kind"], name: string, clientId?: string, parent?: TraceContext): TraceSpan | undefined {
+        const tracing = this.options.tracing
+        if (tracing === undefined)
+            return undefined
+        parent ??= tracing.storage?.getStore()
+
+        /*  derive the W3C trace context of the span
+            (with the trace id and flags of the parent span or of a new trace)  */
+        const random = (n: number) =>
+            Buffer.from(globalThis.crypto.getRandomValues(new Uint8Array(n))).toString("hex")
+        const m = parent?.traceparent.match(/^[\da-f]{2}-([\da-f]{32})-[\da-f]{16}-([\da-f]{2})$/)
+        const context: TraceContext = { traceparent: `00-${m?.[1] ?? random(16)}-${random(8)}-${m?.[2] ?? "01"}` }
+        if (m && parent?.tracestate !== undefined)
+            context.tracestate = parent.tracestate
+        const span: TraceSpan = { kind, name, clientId, parent: m ? parent : undefined, context }
+
+        /*  let an external tracer observe the span (and optionally provide its own trace context)  */
+        const provided = tracing.spanStart?.(span)
+        if (provided)
+            span.context = provided
+        return span
+    }
+
+    /*  end a tracing span  */
+    private _traceEnd (span: TraceSpan | undefined, error?: Error): void {
+        if (span !== undefined)
+            this.options.tracing?.spanEnd?.(span, error)
+    }
+
+    /*  determine the metadata carrying the trace context of a tracing span  */
+    private _traceMeta (span: TraceSpan | undefined): Metadata {
+        const meta: Metadata = {}
+        if (span !== undefined) {
+            meta.traceparent = span.context.traceparent
+            if (span.context.tracestate !== undefined)
+                meta.tracestate = span.context.tracestate
+        }
+        return meta
+    }
+
+    /*  run a function within the trace context of a tracing span  */
+    private _traceRun<R> (span: TraceSpan | undefined, fn: () => R): R {
+        const storage = this.options.tracing?.storage
+        return span !== undefined && storage !== undefined
+            ? storage.run(span.context, fn)
+            : fn()
+    }
+
+    /*  determine the remaining time budget of a request (in milliseconds, as sent in its metadata)  */
+    private _budgetOf (deadline: number): string {
+        return String(Math.min(Math.max(0, deadline - Date.now()), API.budgetMax))
+    }
+
+    /*  run a function within the deadline of a service handler (for inheriting it by nested calls)  */
+    private _deadlineRun<R> (deadline: number | undefined, fn: () => R): R {
+        const storage = this.options.deadlineStorage
+        return deadline !== undefined && storage !== undefined
+            ? storage.run(deadline, fn)
+            : fn()
+    }
+
+    /*  detect asynchronous iterables (for streamed results)  */
+    private _isAsyncIterable (obj: any): obj is AsyncIterable<any> {
+        return (typeof obj === "object"
+            && obj !== null
+            && typeof obj[Symbol.asyncIterator] === "function"
+        )
+    }
+
+    /*  send the items of an asynchronous iterable as a stream of responses  */
+    private async _replyStream (
+        rid:      string,
+        iterable: AsyncIterable<any>,
+        signal:   AbortSignal,
+        reply:    Reply,
+        onItem?:  () => void
+    ): Promise<void> {
+        /*  send a single frame and wait for its delivery (for backpressure)  */
+        const send = (frame: StreamFrame) => new Promise<void>((resolve, reject) => {
+            reply(JSONRPC.notification("rpc.stream", frame), (err?: Error) => {
+                if (err) reject(err)
+                else     resolve()
+            })
         })
 
-        return promise
+        /*  send all items, followed by an end or error marker  */
+        let seq = 0
+        try {
+            for await (const value of iterable) {
+                if (signal.aborted)
+                    break
+                await send({ id: rid, seq: seq++, value })
+                onItem?.()
+            }
+        }
+        catch (err: unknown) {
+            if (!signal.aborted)
+                await send({ id: rid, seq, error: this._mapError(err) })
+            return
+        }
+        if (!signal.aborted)
+            await send({ id: rid, seq, done: true })
+    }
+
+    /*  map an arbitrary exception onto a JSON-RPC error  */
+    private _mapError (result: any): JsonRpcError {
+        /*  determine error type and build appropriate JSON-RPC error  */
+        let rpcError: JsonRpcError
+        switch (typeof result) {
+            case "undefined":
+                rpcError = new JsonRpcError("undefined error", 0)
+                break
+            case "string":
+                rpcError = new JsonRpcError(result, -1)
+                break
+            case "number":
+                rpcError = new JsonRpcError("application error", result)
+                break
+            case "bigint":
+                rpcError = new JsonRpcError("application error", Number(result))
+                break
+            case "object":
+                if (result === null)
+                    rpcError = new JsonRpcError("undefined error", 0)
+                else if (result instanceof JsonRpcError)
+                    rpcError = result
+                else if (result instanceof Error) {
+                    const error = this._errorSerialize(result)
+                    if (result instanceof RpcError)
+                        rpcError = new JsonRpcError(result.message, result.code,
+                            result.data !== undefined ? { error, data: result.data } : { error })
+                    else
+                        rpcError = new JsonRpcError(result.message, -100, { error })
+                }
+                else
+                    rpcError = new JsonRpcError("application error", -100, result)
+                break
+            default:
+                rpcError = new JsonRpcError("unspecified error", 0, { data: result })
+                break
+        }
+        return rpcError
+    }
+
+    /*  serialize an error (with its name, message, optional stack and cause chain)  */
+    private _errorSerialize (err: Error, depth = 0): SerializedError {
+        const serialized: SerializedError = { name: err.name, message: err.message }
+        if (typeof (err as any).code === "number")
+            serialized.code = (err as any).code
+        if (this.options.errorStack && err.stack !== undefined)
+            serialized.stack = err.stack
+        if (err.cause !== undefined && depth < 10)
+            serialized.cause = err.cause instanceof Error
+                ? this._errorSerialize(err.cause, depth + 1)
+                : err.cause
+        return serialized
+    }
+
+    /*  detect serialized errors  */
+    private _isSerializedError (obj: any): obj is SerializedError {
+        return (typeof obj === "object"
+            && obj !== null
+            && typeof obj.name === "string"
+            && typeof obj.message === "string"
+        )
+    }
+
+    /*  deserialize a serialized error into an error object (of a registered error class)  */
+    private _errorCreate (
+        message:     string,
+        code:        number,
+        data:        unknown,
+        serialized?: SerializedError,
+        depth = 0
+    ): RpcError {
+        /*  determine error class  */
+        const ErrorClass = (serialized !== undefined ? API.errors.get(serialized.name) : undefined) ??
+            API.errors.get(code) ?? RpcError
+
+        /*  determine error cause  */
+        let cause = serialized?.cause
+        if (this._isSerializedError(cause) && depth < 10)
+            cause = this._errorCreate(cause.message, cause.code ?? -100, undefined, cause, depth + 1)
+
+        /*  create error object  */
+        const err = new ErrorClass(message, code, data, cause !== undefined ? { cause } : undefined)
+        if (serialized !== undefined) {
+            if (ErrorClass === RpcError)
+                err.name = serialized.name
+            if (serialized.stack !== undefined)
+                err.stack = serialized.stack
+        }
+        return err
+    }
+
+    /*  deserialize a received JSON-RPC error into an error object  */
+    private _errorDeserialize (error: any, service: string, clientId?: string): RpcError {
+        const code    = typeof error?.code    === "number" ? error.code    : -100
+        const message = typeof error?.message === "string" ? error.message : "unknown error"
+        let data: unknown = error?.data
+        let serialized: SerializedError | undefined
+        if (typeof data === "object" && data !== null && this._isSerializedError((data as any).error)) {
+            serialized = (data as any).error
+            data       = (data as any).data
+        }
+        const err = this._errorCreate(message, code, data, serialized)
+        err.service  = service
+        err.clientId = clientId
+        return err
     }
 
     /*  subscribe to RPC response  */
@@ -479,6 +3074,7 @@ export default class API<T extends APISchema = APISchema> {
         /*  subscribe to MQTT topic and remember subscription  */
         if (!this.subscriptions.has(topic)) {
             this.subscriptions.set(topic, 0)
+            this.topics.set(topic, options)
             this.mqtt.subscribe(topic, options, (err: Error | null) => {
                 if (err)
                     this.mqtt.emit("error", err)
@@ -500,6 +3096,7 @@ export default class API<T extends APISchema = APISchema> {
         this.subscriptions.set(topic, this.subscriptions.get(topic)! - 1)
         if (this.subscriptions.get(topic) === 0) {
             this.subscriptions.delete(topic)
+            this.topics.delete(topic)
             this.mqtt.unsubscribe(topic, (err?: Error) => {
                 if (err)
                     this.mqtt.emit("error", err)
@@ -508,14 +3105,25 @@ export default class API<T extends APISchema = APISchema> {
     }
 
     /*  handle incoming MQTT message  */
-    private _onMessage (topic: string, message: Buffer): void {
+    private _onMessage (topic: string, message: Buffer, packet?: IPublishPacket): void {
+        /*  handle presence announcements separately  */
+        if (this.options.presence) {
+            const presenceMatch = this.options.topicPresenceMatch(topic)
+            if (presenceMatch !== null) {
+                this._onPresence(presenceMatch.clientId!, message, packet)
+                return
+            }
+        }
+
         /*  ensure we handle only MQTT JSON-RPC messages  */
         let eventMatch:    TopicMatching | null = null
         let requestMatch:  TopicMatching | null = null
         let responseMatch: TopicMatching | null = null
+        let stateMatch:    TopicMatching | null = null
         if (   (eventMatch    = this.options.topicEventNoticeMatch(topic))     === null
             && (requestMatch  = this.options.topicServiceRequestMatch(topic))  === null
-            && (responseMatch = this.options.topicServiceResponseMatch(topic)) === null)
+            && (responseMatch = this.options.topicServiceResponseMatch(topic)) === null
+            && (stateMatch    = this.options.topicStateMatch(topic))           === null)
             return
 
         /*  ensure we really handle only MQTT RPC responses for us  */
@@ -523,23 +3131,217 @@ export default class API<T extends APISchema = APISchema> {
         if (clientId !== undefined && clientId !== this.options.clientId)
             return
 
-        /*  try to parse payload as JSON-RPC payload  */
-        let parsed: JsonRpcParsed
+        /*  ignore broadcast requests of services not registered by us
+            (as received through wildcard event subscriptions only)  */
+        if (requestMatch !== null && requestMatch.clientId === undefined && !this.services.has(requestMatch.name))
+            return
+
+        /*  handle cleared states directly (as they are empty retained messages),
+            but only without signing and encryption, as such messages cannot be
+            authenticated (and states are then cleared by clear notifications only)  */
+        if (stateMatch !== null && message.length === 0) {
+            if (this.options.signing === undefined && this.options.encryption === undefined)
+                this._onState(stateMatch.name, topic, null, packet)
+            return
+        }
+
+        /*  determine decoder  */
+        let codec: Codec
         try {
-            let input: Buffer | string = message
-            if (this.options.codec === "json")
-                input = message.toString()
-            const payload = this.codec.decode(input)
-            parsed = JSONRPC.parseObject(payload)
+            codec = this._codecFor(packet)
         }
-        catch (_err: unknown) {
-            const err = _err instanceof JsonRpcError
-                ? new Error(`failed to parse JSON-RPC message: ${_err.message}`)
-                : new Error("failed to parse JSON-RPC message")
+        catch (err: unknown) {
+            this.mqtt.emit("error", err as Error)
+            return
+        }
+
+        /*  decode payload  */
+        const decode = (message: Buffer) => {
+            try { return this._decode(codec, message) }
+            catch (_err: unknown) { throw new Error("failed to parse JSON-RPC message") }
+        }
+
+        /*  handle message directly...  */
+        if (this.options.signing === undefined && this.options.encryption === undefined) {
+            let payload: unknown
+            try {
+                payload = decode(message)
+            }
+            catch (err: unknown) {
+                this.mqtt.emit("error", err as Error)
+                return
+            }
+            this._onPayload(topic, payload, codec, packet)
+            return
+        }
+
+        /*  ...or optionally decrypt message and/or verify signature first
+            (NOTICE: decryption and verification are asynchronous, so messages
+            are serialized in order to retain their original order)  */
+        const processed = (async () => {
+            if (this.options.encryption !== undefined)
+                message = await this._decrypt(topic, message)
+            const payload = decode(message)
+            let keyId: string | undefined
+            if (this.options.signing !== undefined) {
+                const meta = this._metaExtract(Array.isArray(payload) ? payload[0] : payload, packet)
+                keyId = await this._verify(topic, payload, meta)
+            }
+            return { payload, keyId }
+        })()
+        processed.catch(() => {})
+        this.incoming = this.incoming.then(() => processed).then(({ payload, keyId }) => {
+            this._onPayload(topic, payload, codec, packet, keyId)
+        }).catch((err: Error) => {
             this.mqtt.emit("error", err)
+        })
+    }
+
+    /*  handle decoded payload of incoming MQTT message  */
+    private _onPayload (
+        topic:   string,
+        payload: unknown,
+        codec:   Codec,
+        packet:  IPublishPacket | undefined,
+        keyId?:  string
+    ): void {
+        /*  send MQTT response message (with our client id as the sender)
+            (NOTICE: with the MQTT 5.0 response topic, the caller speaks MQTT 5.0,
+            so the metadata can be carried as MQTT 5.0 user properties, but without
+            it, the caller might not speak MQTT 5.0, so the metadata has to be embedded)  */
+        const responseTopic   = packet?.properties?.responseTopic
+        const correlationData = packet?.properties?.correlationData
+        const replyTo = (rid: string, name: string): Reply => (data, callback) => {
+            const meta = { sender: this.options.clientId }
+            if (responseTopic !== undefined) {
+                /*  with signing, accept only the response topic of the caller of the signed
+                    request id (as the MQTT 5.0 response topic itself is not signed)  */
+                if (this.options.signing !== undefined
+                    && this.options.topicServiceResponseMatch(responseTopic)?.clientId !== rid.match(/^(.+):.+$/)?.[1])
+                    throw new Error("signing: response topic does not belong to the caller")
+                this._publish(responseTopic, codec, data,
+                    { qos: 2, properties: { correlationData } }, meta, callback, false)
+            }
+            else {
+                const callerId = rid.match(/^(.+):.+$/)?.[1]
+                if (callerId === undefined)
+                    throw new Error("invalid request id format")
+                const topic = this.options.topicServiceResponseMake(name, callerId)
+                this._publish(topic, codec, data, { qos: 2 }, meta, callback, true)
+            }
+        }
+
+        /*  handle state change  */
+        const stateMatch = this.options.topicStateMatch(topic)
+        if (stateMatch !== null) {
+            this._onState(stateMatch.name, topic, payload, packet, keyId)
+            return
+        }
+
+        /*  handle JSON-RPC batch  */
+        if (Array.isArray(payload)) {
+            this._onBatch(topic, payload, packet, replyTo, keyId)
+            return
+        }
+
+        /*  handle single JSON-RPC message  */
+        const entry = this._parse(payload, packet, keyId)
+        if (entry instanceof Error) {
+            this.mqtt.emit("error", entry)
+            return
+        }
+        const { parsed, meta } = entry
+        const response = this._dispatch(topic, parsed, meta, packet, replyTo)
+        if (parsed.type === "request" && parsed.payload instanceof RequestObject) {
+            /*  send response (unless already streamed or the caller has already given up)  */
+            const reply = replyTo(String(parsed.payload.id), parsed.payload.method)
+            response.then((rpcResponse) => {
+                if (rpcResponse !== null)
+                    reply(rpcResponse)
+            }).catch((err: Error) => {
+                this.mqtt.emit("error", err)
+            })
+        }
+    }
+
+    /*  handle incoming JSON-RPC batch (with a single batch response for all requests)  */
+    private _onBatch (
+        topic:   string,
+        batch:   unknown[],
+        packet:  IPublishPacket | undefined,
+        replyTo: (rid: string, name: string) => Reply,
+        keyId?:  string
+    ): void {
+        /*  an empty batch is an invalid request  */
+        if (batch.length === 0) {
+            try {
+                replyTo("", "")(JSONRPC.error(null, JsonRpcError.invalidRequest(null)))
+            }
+            catch (err: unknown) {
+                this.mqtt.emit("error", err as Error)
+            }
             return
         }
 
+        /*  parse all messages of the batch  */
+        const messages = batch.map((payload) => this._parse(payload, packet, keyId))
+
+        /*  the first request determines the response topic of all responses  */
+        const first = messages
+            .map((message) => message instanceof Error ? undefined : message.parsed.payload)
+            .find((payload) => payload instanceof RequestObject)
+        const replyToBatch = (rid: string) =>
+            replyTo(first !== undefined ? String(first.id) : rid, first?.method ?? "")
+
+        /*  dispatch all messages of the batch (but refuse requests on event topics,
+            as they would bypass the checks of requests on service request topics)  */
+        const onEventTopic = this.options.topicEventNoticeMatch(topic) !== null
+        const responses = messages.map((message) => {
+            if (message instanceof Error || message.parsed.type === "invalid")
+                return Promise.resolve(JSONRPC.error(null, JsonRpcError.invalidRequest(null)))
+            if (onEventTopic && message.parsed.payload instanceof RequestObject) {
+                this.mqtt.emit("error", new Error(`batch: refusing request of service "${message.parsed.payload.method}" on event topic`))
+                return Promise.resolve(null)
+            }
+            return this._dispatch(topic, message.parsed, message.meta, packet, replyToBatch)
+        })
+
+        /*  send batch response (unless it contains no responses at all)  */
+        Promise.all(responses).then((responses) => {
+            const data = responses.filter((response) => response !== null)
+            if (data.length === 0)
+                return
+            replyToBatch("")(data)
+        }).catch((err: Error) => {
+            this.mqtt.emit("error", err)
+        })
+    }
+
+    /*  parse a single JSON-RPC message (and extract its metadata, where
+        only the key id of a verified signature is retained as metadata)  */
+    private _parse (payload: unknown, packet?: IPublishPacket, keyId?: string): { parsed: JsonRpcParsed, meta: Metadata } | Error {
+        try {
+            const { kid: _kid, sig: _sig, ...meta } = this._metaExtract(payload, packet)
+            if (keyId !== undefined)
+                meta.kid = keyId
+            const parsed = JSONRPC.parseObject(payload)
+            return { parsed, meta }
+        }
+        catch (err: unknown) {
+            return err instanceof JsonRpcError
+                ? new Error(`failed to parse JSON-RPC message: ${err.message}`)
+                : new Error("failed to parse JSON-RPC message")
+        }
+    }
+
+    /*  dispatch a single JSON-RPC message (and provide the response to a request)  */
+    private _dispatch (
+        topic:   string,
+        parsed:  JsonRpcParsed,
+        meta:    Metadata,
+        packet:  IPublishPacket | undefined,
+        replyTo: (rid: string, name: string) => Reply
+    ): Promise<JsonRpc | null> {
         /*  determine parameters  */
         const getId = (arg: ID) =>
             (typeof arg === "string" ? arg : String(arg))
@@ -551,90 +3353,350 @@ export default class API<T extends APISchema = APISchema> {
             return Array.from(arg)
         }
 
+        /*  determine trace context of the remote parent span  */
+        const traceParent: TraceContext | undefined = meta.traceparent !== undefined
+            ? { traceparent: meta.traceparent, tracestate: meta.tracestate }
+            : undefined
+
         /*  dispatch according to JSON-RPC type  */
-        if (parsed.type === "notification" && parsed.payload instanceof NotificationObject) {
-            /*  just deliver event  */
-            const name = parsed.payload.method
-            const handler = this.registry.get(name)
+        if (parsed.type === "notification" && parsed.payload instanceof NotificationObject
+            && parsed.payload.method === "rpc.stream") {
+            /*  handle a frame of a streamed service response  */
+            const frame = parsed.payload.params as StreamFrame
+            this.requests.get(frame.id)?.stream(frame, meta.sender)
+        }
+        else if (parsed.type === "notification" && parsed.payload instanceof NotificationObject
+            && parsed.payload.method === "rpc.cancel") {
+            /*  cancel the processing of a service request  */
             const params = getParams(parsed.payload.params)
-            handler?.(...params)
+            this.running.get(String(params[0]))?.abort(new Error("request cancelled"))
+        }
+        else if (parsed.type === "notification" && parsed.payload instanceof NotificationObject) {
+            /*  ignore events during shutdown  */
+            if (this.closing)
+                return Promise.resolve(null)
+
+            /*  just deliver event (with the received parameters, as they
+                are mapped onto the arguments of each subscriber individually)  */
+            const received = new Date()
+            const params = parsed.payload.params
+            const named = typeof params === "object" && params !== null && !Array.isArray(params)
+            const ctx: InterceptorContext = {
+                direction: "incoming", kind: "notification",
+                method: parsed.payload.method,
+                params: named ? [ params ] : getParams(params),
+                named,
+                topic
+            }
+            const span = this._traceStart("event", ctx.method, meta.sender, traceParent)
+            this._traceRun(span, () => this._intercept(ctx, async (ctx) => {
+                /*  deliver event to all subscribers of the event or of a matching event pattern  */
+                const errors = [] as Error[]
+                for (const handler of this._eventHandlers(ctx.method)) {
+                    try {
+                        /*  map parameters onto the arguments of the event handler  */
+                        let args: any[]
+                        try {
+                            args = this._mapParams(ctx.named ? ctx.params[0] : ctx.params, handler.options.params)
+                        }
+                        catch (_err: unknown) {
+                            throw new Error(`invalid parameters for event "${ctx.method}"`)
+                        }
+
+                        /*  authorize event  */
+                        const context = this._handlerContext(topic, packet, received, {
+                            method:   ctx.method,
+                            clientId: meta.sender,
+                            directed: this.options.topicEventNoticeMatch(topic)?.clientId !== undefined,
+                            keyId:    meta.kid,
+                            trace:    span?.context
+                        })
+                        const authorize = handler.options.authorize
+                        if (authorize !== undefined && !(await authorize({ ...context, params: args })))
+                            throw new Error(`unauthorized event "${ctx.method}"`)
+
+                        /*  validate parameters  */
+                        if (handler.options.validate?.params !== undefined) {
+                            const validation = this._validateParams(handler.options.validate.params, args)
+                            if (!validation.valid)
+                                throw new Error(`invalid parameters for event "${ctx.method}"`)
+                        }
+
+                        /*  execute event handler (optionally with handler context)  */
+                        const stats = this._statsEvent(ctx.method)
+                        const started = Date.now()
+                        stats.delivered++
+                        try {
+                            if (handler.options.context)
+                                handler.callback(...args, context)
+                            else
+                                handler.callback(...args)
+                        }
+                        finally {
+                            this._observe(stats.duration, Date.now() - started)
+                        }
+                    }
+                    catch (err: unknown) {
+                        errors.push(err as Error)
+                    }
+                }
+
+                /*  report failed deliveries  */
+                if (errors.length === 1)
+                    throw errors[0]
+                else if (errors.length > 1)
+                    throw new AggregateError(errors, `event "${ctx.method}" failed for ${errors.length} subscribers`)
+            })).then(() => {
+                this._traceEnd(span)
+            }, (err: Error) => {
+                this._traceEnd(span, err)
+                this.mqtt.emit("error", err)
+            })
         }
         else if (parsed.type === "request" && parsed.payload instanceof RequestObject) {
-            /*  deliver service request and send response  */
+            /*  deliver service request and determine response  */
             const rid = getId(parsed.payload.id)
             const name = parsed.payload.method
-            const handler = this.registry.get(name)
-            let response: Promise<any>
-            if (handler !== undefined) {
-                /*  execute service handler  */
-                const params = getParams(parsed.payload.params)
-                response = Promise.resolve().then(() => handler(...params))
+
+            /*  suppress duplicate requests (from retries or MQTT redeliveries)
+                by providing the response of the original request again  */
+            const cached = this.responses.get(rid)
+            if (cached !== undefined) {
+                this.responses.delete(rid)
+                this.responses.set(rid, cached)
+                return cached
             }
-            else
-                response = Promise.reject(JsonRpcError.methodNotFound({ method: name, id: rid }))
-            response.then((result: any) => {
+
+            /*  determine caller client id (either via MQTT 5.0
+                response topic or via the request id prefix)  */
+            const responseTopic = packet?.properties?.responseTopic
+            const callerId = responseTopic !== undefined
+                ? this.options.topicServiceResponseMatch(responseTopic)?.clientId
+                : rid.match(/^(.+):.+$/)?.[1]
+
+            /*  reject new requests during shutdown  */
+            if (this.closing)
+                return Promise.resolve(JSONRPC.error(rid, new JsonRpcError("Shutting down", ERROR_SHUTDOWN)))
+
+            /*  determine the deadline of the request from the remaining time budget of the caller
+                (NOTICE: the budget is relative, so the clocks of the peers do not have to be synchronized)
+                and drop requests already expired on sending (as the caller has already given up)  */
+            const budget = meta.budget !== undefined && Number.isFinite(Number(meta.budget))
+                ? Math.min(Math.max(0, Number(meta.budget)), API.budgetMax)
+                : undefined
+            if (budget !== undefined && budget <= 0)
+                return Promise.resolve(null)
+            const deadline = budget !== undefined ? Date.now() + budget : undefined
+
+            /*  count request (of registered services only)  */
+            const stats = this.services.has(name) ? this._statsService(name) : undefined
+            if (stats !== undefined)
+                stats.received++
+
+            /*  allow the request processing to be cancelled by the caller  */
+            const received   = new Date()
+            const controller = new AbortController()
+            this.running.set(rid, controller)
+            let slot = false
+
+            /*  abort the request processing once the deadline of the caller is exceeded
+                (NOTICE: a result provided nevertheless is still sent, as retries of
+                the caller reuse the request id and hence can still receive it, and
+                streamed results extend the deadline by the original time budget with
+                each item, as the caller restarts its timeout with each item, too)  */
+            let expired = false
+            let expiry: ReturnType<typeof setTimeout> | null = null
+            const expiryStart = (duration: number) => {
+                if (expiry !== null)
+                    clearTimeout(expiry)
+                expiry = setTimeout(() => {
+                    expired = true
+                    controller.abort(new Error("deadline exceeded"))
+                }, duration)
+            }
+            if (budget !== undefined)
+                expiryStart(budget)
+
+            /*  map parameters onto the arguments of the service handler  */
+            let params: any[] = []
+            let paramsError: Error | undefined
+            try {
+                params = this._mapParams(parsed.payload.params, this.services.get(name)?.options.params)
+            }
+            catch (err: unknown) {
+                paramsError = err as Error
+            }
+
+            const ctx: InterceptorContext = {
+                direction: "incoming", kind: "request",
+                method: name,
+                params,
+                topic, clientId: callerId
+            }
+            const span = this._traceStart("service", name, callerId, traceParent)
+            const response = this._traceRun(span, () => this._deadlineRun(deadline, () => this._intercept(ctx, async (ctx) => {
+                const handler = this.services.get(ctx.method)
+                if (handler === undefined)
+                    throw JsonRpcError.methodNotFound({ method: ctx.method, id: rid })
+                if (paramsError !== undefined)
+                    throw paramsError
+
+                /*  authorize request  */
+                const context = this._handlerContext(topic, packet, received, {
+                    method:    ctx.method,
+                    clientId:  callerId,
+                    requestId: rid,
+                    directed:  this.options.topicServiceRequestMatch(topic)?.clientId !== undefined,
+                    keyId:     meta.kid,
+                    trace:     span?.context,
+                    deadline:  deadline !== undefined ? new Date(deadline) : undefined,
+                    signal:    controller.signal
+                })
+                const authorize = handler.options.authorize
+                if (authorize !== undefined && !(await authorize({ ...context, params: ctx.params })))
+                    throw new JsonRpcError("Unauthorized", ERROR_UNAUTHORIZED)
+
+                /*  validate parameters  */
+                const validate = handler.options.validate
+                if (validate?.params !== undefined) {
+                    const validation = this._validateParams(validate.params, ctx.params)
+                    if (!validation.valid)
+                        throw JsonRpcError.invalidParams(validation.details)
+                }
+
+                /*  wait for a slot within the concurrency limits (or reject if overloaded)  */
+                await this._slotAcquire(ctx.method, handler.options, controller.signal)
+                slot = true
+
+                /*  execute service handler (with optional handler context)  */
+                const started = Date.now()
+                let result: any
+                try {
+                    result = handler.options.context
+                        ? await handler.callback(...ctx.params, context)
+                        : await handler.callback(...ctx.params)
+                }
+                finally {
+                    this._observe(this._statsService(ctx.method).duration, Date.now() - started)
+                }
+
+                /*  validate result (or each streamed result)  */
+                if (validate?.result !== undefined) {
+                    const validator = validate.result
+                    const check = (value: any) => {
+                        const validation = this._validate(validator, value)
+                        if (!validation.valid)
+                            throw JsonRpcError.internalError(validation.details)
+                    }
+                    if (this._isAsyncIterable(result))
+                        return (async function * () {
+                            for await (const item of result) {
+                                check(item)
+                                yield item
+                            }
+                        })()
+                    check(result)
+                }
+                return result
+            })))
+
+            /*  determine JSON-RPC response  */
+            const responded = response.then(async (result: any) => {
+                /*  stream results of asynchronous iterables  */
+                if (this._isAsyncIterable(result)) {
+                    await this._replyStream(rid, result, controller.signal, replyTo(rid, name), () => {
+                        if (budget !== undefined && !expired)
+                            expiryStart(budget)
+                    })
+                    return null
+                }
+
                 /*  create JSON-RPC success response  */
                 return JSONRPC.success(rid, result)
             }, (result: any) => {
-                /*  determine error type and build appropriate JSON-RPC error response  */
-                let rpcError: JsonRpcError
-                switch (typeof result) {
-                    case "undefined":
-                        rpcError = new JsonRpcError("undefined error", 0)
-                        break
-                    case "string":
-                        rpcError = new JsonRpcError(result, -1)
-                        break
-                    case "number":
-                        rpcError = new JsonRpcError("application error", result)
-                        break
-                    case "bigint":
-                        rpcError = new JsonRpcError("application error", Number(result))
-                        break
-                    case "object":
-                        if (result === null)
-                            rpcError = new JsonRpcError("undefined error", 0)
-                        else if (result instanceof JsonRpcError)
-                            rpcError = result
-                        else if (result instanceof Error)
-                            rpcError = new JsonRpcError(result.toString(), -100, result)
-                        else
-                            rpcError = new JsonRpcError("application error", -100, result)
-                        break
-                    default:
-                        rpcError = new JsonRpcError("unspecified error", 0, { data: result })
-                        break
-                }
-                return JSONRPC.error(rid, rpcError)
+                /*  create JSON-RPC error response  */
+                return JSONRPC.error(rid, this._mapError(result))
             }).then((rpcResponse) => {
-                /*  send MQTT response message  */
-                const idMatch = rid.match(/^(.+):.+$/)
-                if (idMatch === null)
-                    throw new Error("invalid request id format")
-                const clientId = idMatch[1]
-                const encoded = this.codec.encode(rpcResponse)
-                const topic = this.options.topicServiceResponseMake(name, clientId)
-                this.mqtt.publish(topic, encoded, { qos: 2 })
+                /*  end tracing span and count response (after a success, error or streamed response)  */
+                this._traceEnd(span, rpcResponse instanceof ErrorObject
+                    ? new Error(rpcResponse.error.message)
+                    : undefined)
+                if (stats !== undefined) {
+                    if (rpcResponse instanceof ErrorObject)
+                        stats.errors++
+                    else
+                        stats.handled++
+                }
+
+                /*  suppress response if the caller has cancelled the request  */
+                return controller.signal.aborted && !expired ? null : rpcResponse
             }).catch((err: Error) => {
                 this.mqtt.emit("error", err)
+                return null
+            }).finally(() => {
+                if (this.running.get(rid) === controller)
+                    this.running.delete(rid)
+                if (expiry !== null)
+                    clearTimeout(expiry)
+                if (slot)
+                    this._slotRelease(name)
             })
+
+            /*  track response (for draining on shutdown)  */
+            this.handling.add(responded)
+            responded.then(() => { this.handling.delete(responded) })
+
+            /*  remember response for suppressing duplicate requests (in a bounded cache)
+                (NOTICE: error responses and suppressed responses of cancelled requests
+                are forgotten again, so retries can succeed)  */
+            if (this.options.responseCacheSize > 0) {
+                this.responses.set(rid, responded)
+                while (this.responses.size > this.options.responseCacheSize)
+                    this.responses.delete(this.responses.keys().next().value!)
+                responded.then((rpcResponse) => {
+                    if ((rpcResponse instanceof ErrorObject || (rpcResponse === null && controller.signal.aborted))
+                        && this.responses.get(rid) === responded)
+                        this.responses.delete(rid)
+                })
+            }
+            return responded
         }
         else if ((parsed.type === "success" && parsed.payload instanceof SuccessObject)
             || (parsed.type === "error" && parsed.payload instanceof ErrorObject)) {
-            /*  handle service response  */
-            const rid = getId(parsed.payload.id)
-            const request = this.requests.get(rid)
-            if (request !== undefined) {
-                /*  call callback function  */
+            /*  handle service response
+                (correlated via the request id, which has to match the MQTT 5.0 correlation data,
+                or for responses without request id via the MQTT 5.0 correlation data only,
+                but not with signing, as the MQTT 5.0 correlation data itself is not signed)  */
+            const correlationData = packet?.properties?.correlationData?.toString()
+            const id = parsed.payload.id
+            const rid = id !== null
+                ? (correlationData === undefined || correlationData === getId(id) ? getId(id) : undefined)
+                : (this.options.signing === undefined ? correlationData : undefined)
+            const request = rid !== undefined ? this.requests.get(rid) : undefined
+            if (rid !== undefined && request !== undefined) {
+                /*  forget request and unsubscribe from response
+                    (unless responses of all registrants are collected)  */
+                if (!request.collect) {
+                    this.requests.delete(rid)
+                    this._responseUnsubscribe(request.responseService)
+                }
+
+                /*  pass response through interceptors and call callback function  */
+                const ctx: InterceptorContext = {
+                    direction: "incoming", kind: "response",
+                    method: request.service, params: [], topic, clientId: meta.sender
+                }
                 if (parsed.type === "success" && parsed.payload instanceof SuccessObject)
-                    request.callback(undefined, parsed.payload.result)
+                    ctx.result = parsed.payload.result
                 else if (parsed.type === "error" && parsed.payload instanceof ErrorObject)
-                    request.callback(parsed.payload.error, undefined)
-
-                /*  unsubscribe from response  */
-                this.requests.delete(rid)
-                this._responseUnsubscribe(request.service)
+                    ctx.error = this._errorDeserialize(parsed.payload.error, request.service, meta.sender)
+                this._intercept(ctx, (ctx) => {
+                    request.callback(ctx.error, ctx.result, meta.sender)
+                }).catch((err: Error) => {
+                    request.callback(err, undefined, meta.sender)
+                })
             }
         }
+        return Promise.resolve(null)
     }
 }